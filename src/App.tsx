@@ -1,126 +1,361 @@
 // src/App.tsx
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { DataList } from "./components/DataList";
 import { SystemHealth } from "./components/SystemHealth";
-import type { DBRecord, AnalyzedRecord } from "./data/types";
-
-/* ---- Env (Vite) ---- */
-const SB_URL = import.meta.env.VITE_SUPABASE_URL as string;
-const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
-
-/** Optional: put this in .env for easy swapping between envs
- * VITE_ANALYZE_FUNC_URL=https://ronuqzvkaljzfwhpoqrk.functions.supabase.co/analyze-records
- */
-const ANALYZE_FUNC_URL =
-  (import.meta.env.VITE_ANALYZE_FUNC_URL as string) ??
-  "https://ronuqzvkaljzfwhpoqrk.functions.supabase.co/analyze-records";
-
-/* ---- Fetch + map DB -> UI shape ---- */
-async function fetchRecords(): Promise<AnalyzedRecord[]> {
-  const url = new URL(`${SB_URL}/rest/v1/records`);
-  url.searchParams.set(
-    "select",
-    "id,source,url,content,created_at,summary,keywords,sentiment,sentiment_score,analyzed_at"
-  );
-  // If your table uses `inserted_at`, keep this. Otherwise change to `created_at.desc`.
-  url.searchParams.set("order", "inserted_at.desc");
-  url.searchParams.set("limit", "200");
-
-  const r = await fetch(url.toString(), {
-    headers: { apikey: SB_ANON, Authorization: `Bearer ${SB_ANON}` }
-  });
-  if (!r.ok) throw new Error(await r.text());
-
-  const rows = (await r.json()) as DBRecord[];
-
-  return rows.map((row) => ({
-    id: row.id,
-    source: row.source,
-    url: row.url,
-    content: row.content,
-    created_at: row.created_at,
-    analysis: {
-      summary: row.summary ?? "",
-      keywords: row.keywords ?? [],
-      sentiment: (row.sentiment ?? "neutral") as
-        | "positive"
-        | "neutral"
-        | "negative",
-      // Convert -1..1 to 0..1 for the UI “confidence”
-      confidence:
-        typeof row.sentiment_score === "number"
-          ? Math.max(0, Math.min(1, (row.sentiment_score + 1) / 2))
-          : 0.5
-    }
-  }));
-}
-
-/* Shape we *might* get back from your Edge Function */
-type AnalyzeResponse = Partial<{
-  analyzedCount: number;
-  count: number;
-  processed: number;
-  total: number;
-  message: string;
-  // include any other fields you return
-}>;
+import { RunsList } from "./components/RunsList";
+import { ImportDialog } from "./components/ImportDialog";
+import {
+  fetchAnalysisHistory,
+  fetchHealthStats,
+  fetchKeywordFacets,
+  fetchMatchingIds,
+  fetchRecords,
+  fetchSentimentTrend,
+  fetchSourceStats,
+  fetchSources,
+  retryAnalysis,
+  saveRating
+} from "./data/records";
+import type {
+  KeywordFacet,
+  ReanalyzeTarget,
+  RecordCursor,
+  SourceOption,
+  HealthStats,
+  SourceStats,
+  TrendPoint
+} from "./data/records";
+import { exportRecords } from "./data/export";
+import { subscribeToRecords } from "./data/realtime";
+import {
+  postAnalyze,
+  previewReanalyze,
+  reanalyze
+} from "./data/analyze";
+import {
+  RUNS_PAGE_SIZE,
+  fetchJobRunDetails,
+  fetchJobRuns,
+  mergeFirstRunsPage
+} from "./data/runs";
+import type { JobKind, JobRun } from "./data/runs";
+import { TREND_WINDOWS, fillTrend, trendStart } from "./data/trend";
+import type { TrendWindow } from "./data/trend";
+import { readQueryFromUrl, writeQueryToUrl } from "./data/query";
+import type { RecordQuery } from "./data/query";
+import type { AnalyzedRecord } from "./data/types";
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<"data" | "health">("data");
+  const [activeTab, setActiveTab] = useState<"data" | "health" | "runs">(
+    "data"
+  );
+  const [query, setQuery] = useState<RecordQuery>(() => readQueryFromUrl());
   const [records, setRecords] = useState<AnalyzedRecord[] | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [facets, setFacets] = useState<KeywordFacet[]>([]);
+  const [sources, setSources] = useState<SourceOption[]>([]);
+  const [cursor, setCursor] = useState<RecordCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  // Inserted since the last load; shown as a banner instead of shifting the list
+  const [newIds, setNewIds] = useState<string[]>([]);
+
+  // Sentiment trend (System Health tab)
+  const [trendRange, setTrendRange] = useState<TrendWindow>(TREND_WINDOWS[1]);
+  const [trendPoints, setTrendPoints] = useState<TrendPoint[]>([]);
+  const [trendLoading, setTrendLoading] = useState(false);
+  const [trendError, setTrendError] = useState<string | null>(null);
+
+  // Headline numbers over all records (System Health tab)
+  const [healthStats, setHealthStats] = useState<HealthStats | null>(null);
+
+  // Per-source breakdown (System Health tab)
+  const [sourceStats, setSourceStats] = useState<SourceStats[]>([]);
+  const [sourceStatsLoading, setSourceStatsLoading] = useState(false);
+  const [sourceStatsError, setSourceStatsError] = useState<string | null>(
+    null
+  );
+
+  // Pipeline run history (Runs tab)
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [runsJob, setRunsJob] = useState<JobKind | "all">("all");
+  const [runsLoading, setRunsLoading] = useState(false);
+  const [runsLoadingMore, setRunsLoadingMore] = useState(false);
+  const [runsHasMore, setRunsHasMore] = useState(false);
+  const [runsError, setRunsError] = useState<string | null>(null);
 
   // Analyze states
   const [analyzing, setAnalyzing] = useState(false);
   const [analyzeMsg, setAnalyzeMsg] = useState<string | null>(null);
   const [analyzedCount, setAnalyzedCount] = useState<number | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  // Bumped on every (re)load so responses for a stale query are dropped
+  const requestId = useRef(0);
 
   const load = useCallback(async () => {
+    const id = ++requestId.current;
     try {
       setLoading(true);
       setErr(null);
-      const data = await fetchRecords();
-      setRecords(data);
+      setNewIds([]);
+      const [page, topKeywords] = await Promise.all([
+        fetchRecords(query),
+        fetchKeywordFacets(query)
+      ]);
+      if (id !== requestId.current) return;
+      setRecords(page.records);
+      setFacets(topKeywords);
+      setTotal(page.total);
+      setCursor(page.nextCursor);
+    } catch (e) {
+      console.log(e);
+      setErr(String(e instanceof Error ? e.message : e));
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [query]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || loadingMore) return;
+    const id = requestId.current;
+    try {
+      setLoadingMore(true);
+      const page = await fetchRecords(query, cursor);
+      if (id !== requestId.current) return;
+      setRecords((prev) => [...(prev ?? []), ...page.records]);
+      setCursor(page.nextCursor);
     } catch (e) {
       console.log(e);
       setErr(String(e instanceof Error ? e.message : e));
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
+  }, [query, cursor, loadingMore]);
+
+  /* what the realtime handlers below check changes against */
+  const queryRef = useRef(query);
+  const shownIds = useRef(new Set<string>());
+  useEffect(() => {
+    queryRef.current = query;
+  }, [query]);
+  useEffect(() => {
+    shownIds.current = new Set(records?.map((r) => r.id));
+  }, [records]);
+
+  /*
+   * Live changes: new rows wait behind the banner, updated rows swap in place.
+   * Only rows the current query matches count: changes are collected for a
+   * second and checked with the query's own filters (search included).
+   */
+  useEffect(() => {
+    let inserted = new Set<string>();
+    let updated = new Map<string, AnalyzedRecord>();
+    let timer: number | undefined;
+
+    const flush = async () => {
+      timer = undefined;
+      const newRows = [...inserted];
+      const changed = [...updated.values()];
+      inserted = new Set();
+      updated = new Map();
+      const id = requestId.current;
+      try {
+        const matching = await fetchMatchingIds(queryRef.current, [
+          ...newRows,
+          ...changed.map((r) => r.id)
+        ]);
+        // reloaded meanwhile: that load already has these changes
+        if (id !== requestId.current) return;
+
+        const added = newRows.filter((rid) => matching.has(rid));
+        if (added.length) {
+          setNewIds((prev) => [
+            ...prev,
+            ...added.filter((rid) => !prev.includes(rid))
+          ]);
+        }
+        const dropped = changed.filter(
+          (r) => !matching.has(r.id) && shownIds.current.has(r.id)
+        ).length;
+        if (dropped) {
+          setTotal((t) => (t === null ? t : Math.max(0, t - dropped)));
+        }
+        const byId = new Map(changed.map((r) => [r.id, r]));
+        setRecords(
+          (prev) =>
+            prev?.flatMap((r) => {
+              const rec = byId.get(r.id);
+              if (!rec) return [r];
+              // no longer matches the filters (e.g. its analysis changed)
+              if (!matching.has(r.id)) return [];
+              // realtime rows carry no embeds: keep the original's source/url
+              const duplicateOf =
+                rec.duplicateOf?.id === r.duplicateOf?.id
+                  ? r.duplicateOf
+                  : rec.duplicateOf;
+              return [{ ...rec, duplicateOf }];
+            }) ?? prev
+        );
+      } catch (e) {
+        console.log(e);
+      }
+    };
+    const schedule = () => {
+      timer ??= window.setTimeout(flush, 1000);
+    };
+
+    const unsubscribe = subscribeToRecords({
+      onInsert: (rec) => {
+        inserted.add(rec.id);
+        schedule();
+      },
+      onUpdate: (rec) => {
+        if (!shownIds.current.has(rec.id)) return;
+        updated.set(rec.id, rec);
+        schedule();
+      }
+    });
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  const showNewRecords = useCallback(async () => {
+    await load();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [load]);
+
+  const changeQuery = useCallback((next: RecordQuery) => {
+    writeQueryToUrl(next);
+    setQuery(next);
   }, []);
 
   useEffect(() => {
     load();
   }, [load]);
 
+  /* source options don't depend on the query; refreshed with the Refresh button */
+  const loadSources = useCallback(async () => {
+    try {
+      setSources(await fetchSources());
+    } catch (e) {
+      console.log(e);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  const loadTrend = useCallback(async () => {
+    try {
+      setTrendLoading(true);
+      setTrendError(null);
+      const points = await fetchSentimentTrend(
+        trendRange.bucket,
+        trendStart(trendRange)
+      );
+      setTrendPoints(fillTrend(points, trendRange));
+    } catch (e) {
+      console.log(e);
+      setTrendError(String(e instanceof Error ? e.message : e));
+    } finally {
+      setTrendLoading(false);
+    }
+  }, [trendRange]);
+
+  const loadSourceStats = useCallback(async () => {
+    try {
+      setSourceStatsLoading(true);
+      setSourceStatsError(null);
+      const [health, perSource] = await Promise.all([
+        fetchHealthStats(),
+        fetchSourceStats()
+      ]);
+      setHealthStats(health);
+      setSourceStats(perSource);
+    } catch (e) {
+      console.log(e);
+      setSourceStatsError(String(e instanceof Error ? e.message : e));
+    } finally {
+      setSourceStatsLoading(false);
+    }
+  }, []);
+
+  /* only query the trend while the health tab is open */
+  useEffect(() => {
+    if (activeTab === "health") loadTrend();
+  }, [activeTab, loadTrend]);
+
+  useEffect(() => {
+    if (activeTab === "health") loadSourceStats();
+  }, [activeTab, loadSourceStats]);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRunsLoading(true);
+      setRunsError(null);
+      const page = await fetchJobRuns(runsJob);
+      setRuns(page);
+      setRunsHasMore(page.length === RUNS_PAGE_SIZE);
+    } catch (e) {
+      console.log(e);
+      setRunsError(String(e instanceof Error ? e.message : e));
+    } finally {
+      setRunsLoading(false);
+    }
+  }, [runsJob]);
+
+  const loadMoreRuns = useCallback(async () => {
+    const last = runs[runs.length - 1];
+    if (!last) return;
+    try {
+      setRunsLoadingMore(true);
+      const page = await fetchJobRuns(runsJob, last.startedAt);
+      setRuns((prev) => [...prev, ...page]);
+      setRunsHasMore(page.length === RUNS_PAGE_SIZE);
+    } catch (e) {
+      console.log(e);
+      setRunsError(String(e instanceof Error ? e.message : e));
+    } finally {
+      setRunsLoadingMore(false);
+    }
+  }, [runs, runsJob]);
+
+  /* Poll: refresh only the first page, keeping what "Load more" added below it */
+  const refreshRuns = useCallback(async () => {
+    try {
+      const page = await fetchJobRuns(runsJob);
+      setRuns((prev) => mergeFirstRunsPage(prev, page));
+      // new runs only push older ones down, so the end of the list stays the end
+      setRunsHasMore((h) => h && page.length === RUNS_PAGE_SIZE);
+    } catch (e) {
+      console.log(e);
+    }
+  }, [runsJob]);
+
+  useEffect(() => {
+    if (activeTab === "runs") loadRuns();
+  }, [activeTab, loadRuns]);
+
+  /* poll while something is still running so status and counts settle */
+  const hasRunningJob = runs.some((r) => r.status === "running");
+  useEffect(() => {
+    if (activeTab !== "runs" || !hasRunningJob) return;
+    const t = setInterval(refreshRuns, 5000);
+    return () => clearInterval(t);
+  }, [activeTab, hasRunningJob, refreshRuns]);
+
   const triggerAnalyze = useCallback(async () => {
     setAnalyzing(true);
     setAnalyzeMsg(null);
     setAnalyzedCount(null);
 
     try {
-      const res = await fetch(ANALYZE_FUNC_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-          // Add auth header if your Edge Function is protected by RLS/JWT:
-          // Authorization: `Bearer ${SB_ANON}`,
-        }
-        // body: JSON.stringify({ /* if your function expects a payload */ }),
-      });
-
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`HTTP ${res.status} – ${text || "Request failed"}`);
-      }
-
-      let json: AnalyzeResponse | undefined;
-      try {
-        json = (await res.json()) as AnalyzeResponse;
-      } catch {
-        // function might return no body, that's fine
-      }
+      const json = await postAnalyze();
 
       const count =
         json?.analyzedCount ??
@@ -130,9 +365,13 @@ export default function App() {
         0;
 
       setAnalyzedCount(Number(count));
+      const rate = json?.perMinute ? ` (${json.perMinute}/min)` : "";
+      const more = json?.stoppedOnBudget
+        ? " Time budget spent, more records are pending."
+        : "";
       const msg = `Analyzed ${count} ${
         Number(count) === 1 ? "record" : "records"
-      } successfully.`;
+      } successfully${rate}.${more}`;
       setAnalyzeMsg(`✅ ${msg}`);
 
       // Optional: jump to health tab to see the latest counters
@@ -140,6 +379,7 @@ export default function App() {
 
       // Refresh UI data
       await load();
+      if (activeTab === "runs") await loadRuns();
     } catch (e: unknown) {
       const msg =
         e instanceof Error
@@ -152,7 +392,90 @@ export default function App() {
     } finally {
       setAnalyzing(false);
     }
-  }, [load]);
+  }, [load, activeTab, loadRuns]);
+
+  /* optimistic edits from the list (rating, retry) live with the loaded pages */
+  const patchRecord = useCallback(
+    (id: string, patch: Partial<AnalyzedRecord>) =>
+      setRecords(
+        (prev) =>
+          prev?.map((r) => (r.id === id ? { ...r, ...patch } : r)) ?? prev
+      ),
+    []
+  );
+
+  // reset the record, then analyze just that row; Realtime updates its card
+  const retryRecordAnalysis = useCallback(async (id: string) => {
+    if (!(await retryAnalysis(id))) {
+      throw new Error("the record is no longer failed");
+    }
+    // not awaited: the card already shows the reset; a failed call is reported
+    // in the header since the row just waits for the next run
+    postAnalyze({ ids: [id] }).catch((e: unknown) => {
+      const msg = e instanceof Error ? e.message : String(e);
+      setAnalyzeMsg(
+        `❌ Retry queued, but analysis could not start: ${
+          msg || "Unknown error"
+        }. The record stays pending for the next run.`
+      );
+    });
+  }, []);
+
+  // the selected records or every match; only outdated analyses are redone
+  // analyzed by another model/prompt version. Realtime updates the cards.
+  const reanalyzeRecords = useCallback(
+    async (target: ReanalyzeTarget) => {
+      setAnalyzing(true);
+      setAnalyzeMsg(null);
+      setAnalyzedCount(null);
+      try {
+        // a filter can match thousands of rows, each one a paid model call
+        if ("query" in target) {
+          const matching = await previewReanalyze(target.query);
+          if (!matching) {
+            setAnalyzeMsg("✅ Nothing to re-analyze: every match is up to date.");
+            return;
+          }
+          const ok = window.confirm(
+            `Re-analyze ${matching} ${
+              matching === 1 ? "record" : "records"
+            } analyzed by another model or prompt version?`
+          );
+          if (!ok) return;
+        }
+        const json = await reanalyze(target);
+        const requeued = json.requeued ?? 0;
+        const processed = json.processed ?? 0;
+        const more =
+          processed < requeued ? " The rest stay queued for the next runs." : "";
+        setAnalyzeMsg(
+          requeued
+            ? `✅ Re-queued ${requeued} ${
+                requeued === 1 ? "record" : "records"
+              }, re-analyzed ${processed}.${more}`
+            : "✅ Nothing to re-analyze: every match is up to date."
+        );
+        await load();
+        if (activeTab === "runs") await loadRuns();
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setAnalyzeMsg(`❌ Re-analyze failed: ${msg || "Unknown error"}`);
+        throw e;
+      } finally {
+        setAnalyzing(false);
+      }
+    },
+    [load, activeTab, loadRuns]
+  );
+
+  const closeImport = useCallback(() => setShowImport(false), []);
+
+  // the dialog stays open on its summary; refresh what's behind it
+  const handleImported = useCallback(() => {
+    load();
+    loadSources();
+    if (activeTab === "runs") loadRuns();
+  }, [load, loadSources, activeTab, loadRuns]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
@@ -225,9 +548,26 @@ export default function App() {
               )}
             </button>
 
+            {/* Import */}
+            <button
+              onClick={() => setShowImport(true)}
+              className="px-4 py-2 rounded-xl border border-white/10 text-slate-200 bg-slate-800/60 hover:bg-slate-700/60 transition"
+              title="Add records from a CSV / JSON file or pasted text"
+            >
+              Import
+            </button>
+
             {/* Refresh */}
             <button
-              onClick={load}
+              onClick={() => {
+                load();
+                loadSources();
+                if (activeTab === "health") {
+                  loadTrend();
+                  loadSourceStats();
+                }
+                if (activeTab === "runs") loadRuns();
+              }}
               className="px-4 py-2 rounded-xl border border-white/10 text-slate-200 bg-slate-800/60 hover:bg-slate-700/60 transition disabled:opacity-60"
               disabled={loading || analyzing}
             >
@@ -308,18 +648,86 @@ export default function App() {
               System Health
             </span>
           </button>
+          <button
+            onClick={() => setActiveTab("runs")}
+            className={`px-8 py-3 rounded-xl transition-all duration-300 relative ${
+              activeTab === "runs"
+                ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white shadow-lg shadow-blue-500/50"
+                : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+            }`}
+          >
+            <span className="relative z-10 flex items-center gap-2">
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 6h16M4 10h16M4 14h16M4 18h16"
+                />
+              </svg>
+              Runs
+            </span>
+          </button>
         </nav>
       </div>
 
       {/* Main Content */}
       <main className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {loading && !records ? (
+        {activeTab === "runs" ? (
+          <RunsList
+            runs={runs}
+            job={runsJob}
+            onJobChange={setRunsJob}
+            loading={runsLoading}
+            error={runsError}
+            hasMore={runsHasMore}
+            loadingMore={runsLoadingMore}
+            onLoadMore={loadMoreRuns}
+            onLoadDetails={fetchJobRunDetails}
+          />
+        ) : loading && !records ? (
           <div className="text-slate-300">Loading records…</div>
-        ) : records && records.length > 0 ? (
+        ) : records && (records.length > 0 || activeTab === "data") ? (
           activeTab === "data" ? (
-            <DataList records={records} />
+            <DataList
+              records={records}
+              query={query}
+              onQueryChange={changeQuery}
+              facets={facets}
+              sourceOptions={sources}
+              total={total ?? records.length}
+              hasMore={cursor !== null}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
+              newCount={newIds.length}
+              onShowNew={showNewRecords}
+              onExport={(format, onProgress) =>
+                exportRecords(query, format, onProgress)
+              }
+              onRecordPatched={patchRecord}
+              onRatingChange={saveRating}
+              onRetryAnalysis={retryRecordAnalysis}
+              onReanalyze={reanalyzeRecords}
+              reanalyzing={analyzing}
+              onLoadHistory={fetchAnalysisHistory}
+            />
           ) : (
-            <SystemHealth records={records} />
+            <SystemHealth
+              stats={healthStats}
+              trendPoints={trendPoints}
+              trendRange={trendRange}
+              onTrendRangeChange={setTrendRange}
+              trendLoading={trendLoading}
+              trendError={trendError}
+              sourceStats={sourceStats}
+              sourceStatsLoading={sourceStatsLoading}
+              sourceStatsError={sourceStatsError}
+            />
           )
         ) : (
           <div className="text-slate-400">No records found.</div>
@@ -335,6 +743,10 @@ export default function App() {
           </p>
         </div>
       </footer>
+
+      {showImport && (
+        <ImportDialog onClose={closeImport} onImported={handleImported} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { diffKeywords, diffWords } from "../data/diff";
+import type { AnalysisVersion } from "../data/types";
+
+interface AnalysisHistoryProps {
+  /** Newest first; null until loaded */
+  versions: AnalysisVersion[] | null;
+  loading?: boolean;
+  error?: string | null;
+  /** The record's current analysis (records.current_analysis_id) */
+  currentId?: string | null;
+}
+
+const SENTIMENT_ICONS = {
+  positive: "😊",
+  neutral: "😐",
+  negative: "😞"
+} as const;
+
+const SENTIMENT_TEXT = {
+  positive: "text-emerald-300",
+  neutral: "text-slate-300",
+  negative: "text-rose-300"
+} as const;
+
+const formatDate = (iso: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  }).format(new Date(iso));
+
+const formatScore = (score: number | null) =>
+  score === null ? "—" : `${score > 0 ? "+" : ""}${score.toFixed(2)}`;
+
+const versionLabel = (v: AnalysisVersion) =>
+  `${v.model ?? "unknown model"} · prompt ${v.promptVersion ?? "?"}`;
+
+function Sentiment({ version }: { version: AnalysisVersion }) {
+  if (!version.sentiment) return <span className="text-slate-500">—</span>;
+  return (
+    <span className={SENTIMENT_TEXT[version.sentiment]}>
+      {SENTIMENT_ICONS[version.sentiment]} {version.sentiment}{" "}
+      <span className="text-slate-400">
+        {formatScore(version.sentimentScore)}
+      </span>
+    </span>
+  );
+}
+
+function ScoreChange({
+  before,
+  after
+}: {
+  before: AnalysisVersion;
+  after: AnalysisVersion;
+}) {
+  if (before.sentimentScore === null || after.sentimentScore === null) {
+    return null;
+  }
+  const delta = after.sentimentScore - before.sentimentScore;
+  if (Math.abs(delta) < 0.005) {
+    return <span className="text-slate-500 text-xs">score unchanged</span>;
+  }
+  return (
+    <span
+      className={`text-xs ${delta > 0 ? "text-emerald-300" : "text-rose-300"}`}
+    >
+      {delta > 0 ? "▲" : "▼"} {formatScore(delta)}
+    </span>
+  );
+}
+
+function SummaryDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-slate-200 leading-relaxed">
+      {diffWords(before, after).map((part, i) =>
+        part.op === "add" ? (
+          <ins
+            key={i}
+            className="no-underline bg-emerald-500/20 text-emerald-100 rounded px-0.5"
+          >
+            {part.text}
+          </ins>
+        ) : part.op === "del" ? (
+          <del
+            key={i}
+            className="bg-rose-500/15 text-rose-300/80 rounded px-0.5"
+          >
+            {part.text}
+          </del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/** Every analysis of a record; each version is diffed against the one before it */
+export function AnalysisHistory({
+  versions,
+  loading = false,
+  error = null,
+  currentId
+}: AnalysisHistoryProps) {
+  if (error) {
+    return (
+      <div className="text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+        {error}
+      </div>
+    );
+  }
+  if (!versions) {
+    return (
+      <div className="text-slate-400 text-sm">
+        {loading ? "Loading history…" : null}
+      </div>
+    );
+  }
+  if (versions.length === 0) {
+    return <div className="text-slate-400 text-sm">No stored analyses yet.</div>;
+  }
+
+  const oldestFirst = [...versions].reverse();
+
+  return (
+    <div className={`space-y-4 ${loading ? "opacity-60" : ""}`}>
+      {/* Sentiment across versions, oldest to newest */}
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {oldestFirst.map((v, i) => (
+            <span key={v.id} className="flex items-center gap-2">
+              {i > 0 && <span className="text-slate-600">→</span>}
+              <span
+                title={`${versionLabel(v)} · ${formatDate(v.createdAt)}`}
+                className="px-2.5 py-1 rounded-lg border border-white/10 bg-slate-800/60"
+              >
+                <Sentiment version={v} />
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {versions.map((v, i) => {
+          const previous = versions[i + 1];
+          const keywords = previous
+            ? diffKeywords(previous.keywords, v.keywords)
+            : null;
+          return (
+            <li
+              key={v.id}
+              className="rounded-xl border border-white/10 bg-slate-800/40 p-4"
+            >
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-3 text-sm">
+                <span className="text-white">{versionLabel(v)}</span>
+                {v.id === currentId && (
+                  <span className="px-2 py-0.5 rounded-md border text-xs bg-blue-500/20 text-blue-300 border-blue-500/30">
+                    Current
+                  </span>
+                )}
+                <span className="text-slate-500">{formatDate(v.createdAt)}</span>
+                {v.totalTokens !== null && (
+                  <span
+                    className="text-slate-500"
+                    title={`${v.promptTokens ?? "?"} prompt + ${
+                      v.completionTokens ?? "?"
+                    } completion`}
+                  >
+                    {v.totalTokens.toLocaleString()} tokens
+                  </span>
+                )}
+                <span className="ml-auto flex items-center gap-2">
+                  <Sentiment version={v} />
+                  {previous && <ScoreChange before={previous} after={v} />}
+                </span>
+              </div>
+
+              {previous ? (
+                <SummaryDiff before={previous.summary} after={v.summary} />
+              ) : (
+                <p className="text-slate-200 leading-relaxed">{v.summary}</p>
+              )}
+
+              {keywords &&
+                (keywords.added.length > 0 || keywords.removed.length > 0) && (
+                  <div className="flex flex-wrap gap-1.5 mt-3 text-xs">
+                    {keywords.added.map((k) => (
+                      <span
+                        key={`+${k}`}
+                        className="px-2 py-0.5 rounded-md border bg-emerald-500/15 text-emerald-300 border-emerald-500/30"
+                      >
+                        + {k}
+                      </span>
+                    ))}
+                    {keywords.removed.map((k) => (
+                      <span
+                        key={`-${k}`}
+                        className="px-2 py-0.5 rounded-md border bg-rose-500/15 text-rose-300 border-rose-500/30 line-through"
+                      >
+                        {k}
+                      </span>
+                    ))}
+                  </div>
+                )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,96 +1,278 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { RecordCard } from "./RecordCard";
-import type { AnalyzedRecord } from "../data/types";
+import { KeywordFacets } from "./KeywordFacets";
+import { SourceFilter } from "./SourceFilter";
+import { ExportMenu } from "./ExportMenu";
+import {
+  SENTIMENTS,
+  SORT_OPTIONS,
+  searchTerms,
+  toggleKeyword
+} from "../data/query";
+import type { RecordQuery, SentimentFilter, SortBy } from "../data/query";
+import type {
+  KeywordFacet,
+  ReanalyzeTarget,
+  SourceOption
+} from "../data/records";
+import type { ExportFormat, ExportProgress } from "../data/export";
+import type { AnalysisVersion, AnalyzedRecord } from "../data/types";
 
 interface DataListProps {
+  /** Already filtered + sorted by the server according to `query` */
   records: AnalyzedRecord[];
+  query: RecordQuery;
+  onQueryChange: (query: RecordQuery) => void;
+  /** Top keywords across the whole result set, not just the loaded pages */
+  facets: KeywordFacet[];
+  /** Distinct sources in the table, for the source multi-select */
+  sourceOptions: SourceOption[];
+  /** Total rows on the server (records may be only the pages loaded so far) */
+  total: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  /** Records inserted (via Realtime) since the list was loaded */
+  newCount: number;
+  onShowNew: () => void;
+  /** Download every record of the current query (not just loaded pages) */
+  onExport: (
+    format: ExportFormat,
+    onProgress: (p: ExportProgress) => void
+  ) => Promise<void>;
+  /** Apply a local change to a listed record (App owns the records) */
+  onRecordPatched: (id: string, patch: Partial<AnalyzedRecord>) => void;
+  /** Persist a rating; rejecting rolls the optimistic update back */
+  onRatingChange?: (id: string, rating: number) => Promise<void>;
+  /** Re-queue a failed/skipped analysis and start analyze-records for it */
+  onRetryAnalysis?: (id: string) => Promise<void>;
+  /** Re-analyze the outdated ones among the selected records or the query's matches */
+  onReanalyze?: (target: ReanalyzeTarget) => Promise<void>;
+  reanalyzing?: boolean;
+  /** A record's stored analyses for RecordCard's history drawer */
+  onLoadHistory?: (id: string) => Promise<AnalysisVersion[]>;
 }
 
-/* ---- strict option unions ---- */
-const SENTIMENTS = ["all", "positive", "neutral", "negative"] as const;
-type SentimentFilter = (typeof SENTIMENTS)[number];
+export function DataList({
+  records,
+  query,
+  onQueryChange,
+  facets,
+  sourceOptions,
+  total,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  newCount,
+  onShowNew,
+  onExport,
+  onRecordPatched,
+  onRatingChange,
+  onRetryAnalysis,
+  onReanalyze,
+  reanalyzing = false,
+  onLoadHistory
+}: DataListProps) {
+  const [ratingErrors, setRatingErrors] = useState<Record<string, string>>({});
+  const [retrying, setRetrying] = useState<string[]>([]);
+  const [retryErrors, setRetryErrors] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // only what is still listed (filters change, pages reload)
+  const selected = selectedIds.filter((id) =>
+    records.some((r) => r.id === id)
+  );
 
-const SORT_OPTIONS = ["date", "rating", "confidence"] as const;
-type SortBy = (typeof SORT_OPTIONS)[number];
+  const [searchInput, setSearchInput] = useState(query.search);
+  const highlightTerms = useMemo(
+    () => searchTerms(query.search),
+    [query.search]
+  );
 
-export function DataList({ records }: DataListProps) {
-  const [localRecords, setLocalRecords] = useState(records);
-  const [filterSentiment, setFilterSentiment] =
-    useState<SentimentFilter>("all");
-  const [sortBy, setSortBy] = useState<SortBy>("date");
+  /* follow the parent when the search changes there rather than by typing */
+  useEffect(() => {
+    setSearchInput((prev) =>
+      prev.trim() === query.search.trim() ? prev : query.search
+    );
+  }, [query.search]);
 
-  /* keep local state in sync if parent records change */
+  /* debounce typing so every keystroke isn't a full-text query */
   useEffect(() => {
-    setLocalRecords(records);
-  }, [records]);
+    if (searchInput.trim() === query.search.trim()) return;
+    const t = setTimeout(
+      () => onQueryChange({ ...query, search: searchInput.trim() }),
+      350
+    );
+    return () => clearTimeout(t);
+  }, [searchInput, query, onQueryChange]);
+
+  /* infinite scroll: ask for the next page when the sentinel comes into view */
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !hasMore || loadingMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
+  /*
+   * Rating saves still in flight, per record: the newest one's number and the
+   * rating stored before them. Only the newest save may roll the card back,
+   * so an older failure can't undo a rating picked after it.
+   */
+  const ratingSaves = useRef(
+    new Map<string, { seq: number; saved: number | undefined }>()
+  );
+  const ratingSeq = useRef(0);
+
+  /* rating update (optimistic; rolled back if the parent fails to persist) */
+  const handleRatingChange = async (id: string, rating: number) => {
+    const setRating = (value: number | undefined) =>
+      onRecordPatched(id, { userRating: value });
+
+    setRatingErrors((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    if (!onRatingChange) {
+      setRating(rating);
+      return;
+    }
+
+    const seq = ++ratingSeq.current;
+    const pending = ratingSaves.current.get(id);
+    if (pending) pending.seq = seq;
+    else {
+      // nothing in flight: what the list shows is what's stored
+      const saved = records.find((r) => r.id === id)?.userRating;
+      ratingSaves.current.set(id, { seq, saved });
+    }
+    setRating(rating);
+
+    try {
+      await onRatingChange(id, rating);
+      const pending = ratingSaves.current.get(id);
+      if (pending?.seq === seq) ratingSaves.current.delete(id);
+      else if (pending) pending.saved = rating;
+    } catch (e) {
+      const pending = ratingSaves.current.get(id);
+      if (pending?.seq !== seq) return;
+      ratingSaves.current.delete(id);
+      setRating(pending.saved);
+      const msg = e instanceof Error ? e.message : String(e);
+      setRatingErrors((prev) => ({
+        ...prev,
+        [id]: `Could not save rating: ${msg || "Unknown error"}`
+      }));
+    }
+  };
 
-  /* rating update (local optimistic only; persist in parent if needed) */
-  const handleRatingChange = (id: string, rating: number) => {
-    setLocalRecords((prev) =>
-      prev.map((r) => (r.id === id ? { ...r, userRating: rating } : r))
+  /* retry: the card turns pending once the reset is saved; Realtime brings the result */
+  const handleRetry = async (id: string) => {
+    if (!onRetryAnalysis) return;
+    setRetrying((prev) => [...prev, id]);
+    setRetryErrors((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    try {
+      await onRetryAnalysis(id);
+      onRecordPatched(id, {
+        analysisStatus: "pending",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: null
+      });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setRetryErrors((prev) => ({
+        ...prev,
+        [id]: `Could not retry: ${msg || "Unknown error"}`
+      }));
+    } finally {
+      setRetrying((prev) => prev.filter((x) => x !== id));
+    }
+  };
+
+  /* selection for the bulk re-analyze */
+  const handleSelectChange = (id: string, on: boolean) =>
+    setSelectedIds((prev) =>
+      on ? [...prev, id] : prev.filter((x) => x !== id)
     );
+
+  const handleReanalyze = async (target: ReanalyzeTarget) => {
+    if (!onReanalyze) return;
+    try {
+      await onReanalyze(target);
+      if ("ids" in target) setSelectedIds([]);
+    } catch {
+      // the parent reports the error; keep the selection for another try
+    }
   };
 
   /* handlers */
+  const handleKeywordToggle = (keyword: string) =>
+    onQueryChange(toggleKeyword(query, keyword));
+
   const handleSentimentChange: React.ChangeEventHandler<HTMLSelectElement> = (
     e
   ) => {
     const v = e.currentTarget.value;
     if ((SENTIMENTS as readonly string[]).includes(v)) {
-      setFilterSentiment(v as SentimentFilter);
+      onQueryChange({ ...query, sentiment: v as SentimentFilter });
     }
   };
 
   const handleSortChange: React.ChangeEventHandler<HTMLSelectElement> = (e) => {
     const v = e.currentTarget.value;
     if ((SORT_OPTIONS as readonly string[]).includes(v)) {
-      setSortBy(v as SortBy);
+      onQueryChange({ ...query, sortBy: v as SortBy });
     }
   };
 
-  /* memoized filter + sort */
-  const filteredRecords = useMemo(() => {
-    if (filterSentiment === "all") return localRecords;
-    return localRecords.filter(
-      (r) => (r.analysis?.sentiment ?? "neutral") === filterSentiment
-    );
-  }, [localRecords, filterSentiment]);
-
-  const sortedRecords = useMemo(() => {
-    const arr = [...filteredRecords];
-    arr.sort((a, b) => {
-      if (sortBy === "date") {
-        return (
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
-      }
-      if (sortBy === "rating") {
-        return (b.userRating ?? 0) - (a.userRating ?? 0);
-      }
-      // confidence
-      const ca = a.analysis?.confidence ?? 0;
-      const cb = b.analysis?.confidence ?? 0;
-      if (cb !== ca) return cb - ca;
-      // tie-breaker by date for stability
-      return (
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-    });
-    return arr;
-  }, [filteredRecords, sortBy]);
-
   return (
     <div className="space-y-6">
       {/* Filters and Controls */}
       <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl p-6 border border-white/10">
         <div className="flex flex-wrap items-center gap-6">
+          <div className="relative flex-1 min-w-[240px]">
+            <svg
+              className="w-4 h-4 text-slate-400 absolute left-4 top-1/2 -translate-y-1/2 pointer-events-none"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+              />
+            </svg>
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.currentTarget.value)}
+              placeholder="Search content, summaries and keywords…"
+              aria-label="Search records"
+              className="w-full pl-11 pr-5 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all"
+            />
+          </div>
+
           <div className="flex items-center gap-3">
             <label htmlFor="sentiment-filter" className="text-slate-300">
               Filter:
             </label>
             <select
               id="sentiment-filter"
-              value={filterSentiment}
+              value={query.sentiment}
               onChange={handleSentimentChange}
               className="px-5 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all"
             >
@@ -101,23 +283,77 @@ export function DataList({ records }: DataListProps) {
             </select>
           </div>
 
+          <div className="flex items-center gap-3">
+            <span className="text-slate-300">Source:</span>
+            <SourceFilter
+              options={sourceOptions}
+              selected={query.sources}
+              onChange={(sources) => onQueryChange({ ...query, sources })}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="date-from" className="text-slate-300">
+              From:
+            </label>
+            <input
+              id="date-from"
+              type="date"
+              value={query.from}
+              max={query.to || undefined}
+              onChange={(e) =>
+                onQueryChange({ ...query, from: e.currentTarget.value })
+              }
+              className="px-4 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all"
+            />
+            <label htmlFor="date-to" className="text-slate-300">
+              To:
+            </label>
+            <input
+              id="date-to"
+              type="date"
+              value={query.to}
+              min={query.from || undefined}
+              onChange={(e) =>
+                onQueryChange({ ...query, to: e.currentTarget.value })
+              }
+              className="px-4 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all"
+            />
+          </div>
+
           <div className="flex items-center gap-3">
             <label htmlFor="sort-by" className="text-slate-300">
               Sort:
             </label>
             <select
               id="sort-by"
-              value={sortBy}
+              value={query.sortBy}
               onChange={handleSortChange}
               className="px-5 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all"
             >
-              <option value="date">Date</option>
+              <option value="date" title="Publish date when known, else when it was scraped">
+                Date
+              </option>
               <option value="rating">Rating</option>
               <option value="confidence">Confidence</option>
             </select>
           </div>
 
-          <div className="ml-auto flex items-center gap-2 px-4 py-2 bg-slate-700/30 rounded-xl border border-white/5">
+          <div className="ml-auto flex items-center gap-3">
+            {onReanalyze && (
+              <button
+                onClick={() => handleReanalyze({ query })}
+                disabled={reanalyzing}
+                title="Re-analyze every matching record analyzed by another model or prompt version"
+                className="px-4 py-2.5 rounded-xl border border-white/10 text-slate-200 bg-slate-700/50 hover:bg-slate-700/80 transition disabled:opacity-60"
+              >
+                Re-analyze outdated
+              </button>
+            )}
+            <ExportMenu onExport={onExport} />
+          </div>
+
+          <div className="flex items-center gap-2 px-4 py-2 bg-slate-700/30 rounded-xl border border-white/5">
             <svg
               className="w-4 h-4 text-blue-400"
               fill="none"
@@ -131,48 +367,142 @@ export function DataList({ records }: DataListProps) {
                 d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
               />
             </svg>
-            <span className="text-slate-300">{sortedRecords.length}</span>
-            <span className="text-slate-500">of {records.length}</span>
+            <span className="text-slate-300">{records.length}</span>
+            <span className="text-slate-500">of {total}</span>
           </div>
         </div>
       </div>
 
-      {/* Records List */}
-      <div className="space-y-5">
-        {sortedRecords.map((record) => (
-          <RecordCard
-            key={record.id}
-            record={record}
-            onRatingChange={handleRatingChange}
-          />
-        ))}
-      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_minmax(0,1fr)] gap-6 items-start">
+        <KeywordFacets
+          facets={facets}
+          selected={query.keywords}
+          match={query.keywordMatch}
+          onToggle={handleKeywordToggle}
+          onMatchChange={(keywordMatch) =>
+            onQueryChange({ ...query, keywordMatch })
+          }
+          onClear={() => onQueryChange({ ...query, keywords: [] })}
+        />
 
-      {sortedRecords.length === 0 && (
-        <div className="bg-slate-800/30 backdrop-blur-xl rounded-2xl shadow-2xl p-16 border border-white/10 text-center">
-          <div className="text-slate-500 mb-4">
-            <svg
-              className="w-20 h-20 mx-auto"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={1.5}
-                d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+        <div className="space-y-6">
+          {/* Realtime: new records wait here so the list doesn't jump */}
+          {newCount > 0 && (
+            <div className="sticky top-4 z-10 flex justify-center">
+              <button
+                onClick={onShowNew}
+                className="px-5 py-2 rounded-full text-white bg-gradient-to-r from-blue-500 to-purple-600 shadow-lg shadow-blue-500/40 hover:shadow-blue-500/60 transition flex items-center gap-2"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 10l7-7m0 0l7 7m-7-7v18"
+                  />
+                </svg>
+                {newCount} new {newCount === 1 ? "record" : "records"}
+              </button>
+            </div>
+          )}
+
+          {/* Bulk actions on the selected cards */}
+          {onReanalyze && selected.length > 0 && (
+            <div className="sticky top-4 z-10 flex flex-wrap items-center gap-3 px-5 py-3 rounded-2xl border border-indigo-500/30 bg-slate-900/90 backdrop-blur-xl shadow-2xl">
+              <span className="text-white">{selected.length} selected</span>
+              <button
+                onClick={() => handleReanalyze({ ids: selected })}
+                disabled={reanalyzing}
+                className="px-4 py-2 rounded-xl border border-white/10 text-white bg-indigo-600/90 hover:bg-indigo-600 transition disabled:opacity-60"
+              >
+                {reanalyzing ? "Re-analyzing…" : "Re-analyze"}
+              </button>
+              {selected.length < records.length && (
+                <button
+                  onClick={() => setSelectedIds(records.map((r) => r.id))}
+                  className="text-sm text-slate-300 hover:text-white transition"
+                >
+                  Select all {records.length} loaded
+                </button>
+              )}
+              <button
+                onClick={() => setSelectedIds([])}
+                className="ml-auto text-sm text-slate-400 hover:text-white transition"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          {/* Records List */}
+          <div className="space-y-5">
+            {records.map((record) => (
+              <RecordCard
+                key={record.id}
+                record={record}
+                onRatingChange={handleRatingChange}
+                ratingError={ratingErrors[record.id]}
+                highlightTerms={highlightTerms}
+                selectedKeywords={query.keywords}
+                onKeywordClick={handleKeywordToggle}
+                onRetry={onRetryAnalysis ? handleRetry : undefined}
+                retrying={retrying.includes(record.id)}
+                retryError={retryErrors[record.id]}
+                selected={selected.includes(record.id)}
+                onSelectChange={onReanalyze ? handleSelectChange : undefined}
+                onLoadHistory={onLoadHistory}
               />
-            </svg>
+            ))}
           </div>
-          <p className="text-slate-400 text-lg">
-            No records match your filters
-          </p>
-          <p className="text-slate-500 mt-2">
-            Try adjusting your filter settings
-          </p>
+
+          {/* Infinite scroll sentinel */}
+          {hasMore && (
+            <div ref={sentinelRef} className="py-6 text-center text-slate-500">
+              {loadingMore ? (
+                "Loading more records…"
+              ) : (
+                <button
+                  onClick={onLoadMore}
+                  className="px-4 py-2 rounded-xl border border-white/10 text-slate-200 bg-slate-800/60 hover:bg-slate-700/60 transition"
+                >
+                  Load more
+                </button>
+              )}
+            </div>
+          )}
+
+          {records.length === 0 && (
+            <div className="bg-slate-800/30 backdrop-blur-xl rounded-2xl shadow-2xl p-16 border border-white/10 text-center">
+              <div className="text-slate-500 mb-4">
+                <svg
+                  className="w-20 h-20 mx-auto"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={1.5}
+                    d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </div>
+              <p className="text-slate-400 text-lg">
+                No records match your filters
+              </p>
+              <p className="text-slate-500 mt-2">
+                Try adjusting your filter settings
+              </p>
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 }
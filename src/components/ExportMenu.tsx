@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import { EXPORT_FORMATS } from "../data/export";
+import type { ExportFormat, ExportProgress } from "../data/export";
+
+interface ExportMenuProps {
+  /** Writes the current filtered + sorted view; resolves when the file is saved */
+  onExport: (
+    format: ExportFormat,
+    onProgress: (p: ExportProgress) => void
+  ) => Promise<void>;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  ndjson: "JSON (newline-delimited)",
+  xlsx: "Excel (XLSX)"
+};
+
+export function ExportMenu({ onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const exporting = progress !== null;
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointer);
+    return () => document.removeEventListener("pointerdown", onPointer);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setError(null);
+    setProgress({ written: 0, total: null });
+    try {
+      await onExport(format, setProgress);
+    } catch (e) {
+      // closing the save dialog is not an error
+      if (!(e instanceof DOMException && e.name === "AbortError")) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setError(`Export failed: ${msg || "Unknown error"}`);
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={exporting}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="px-5 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white hover:bg-slate-600/50 backdrop-blur-xl transition-all disabled:opacity-60 flex items-center gap-2"
+      >
+        <svg
+          className="w-4 h-4 text-blue-400"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+          />
+        </svg>
+        {exporting
+          ? `Exporting… ${progress.written}${
+              progress.total !== null ? ` / ${progress.total}` : ""
+            }`
+          : "Export"}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-2 w-64 bg-slate-800/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl p-2"
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <button
+              key={f}
+              role="menuitem"
+              onClick={() => handleExport(f)}
+              className="w-full text-left px-3 py-2 rounded-lg text-slate-200 hover:bg-slate-700/50 transition"
+            >
+              {FORMAT_LABELS[f]}
+            </button>
+          ))}
+          <p className="px-3 pt-2 pb-1 text-xs text-slate-500">
+            Exports every record matching the current filters, in the current
+            sort order.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <button
+          onClick={() => setError(null)}
+          title="Dismiss"
+          className="absolute right-0 z-20 mt-2 w-72 text-left text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/90 border-rose-600/30"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+interface HighlightProps {
+  text: string;
+  /** Lower-cased search words; each matches as a word prefix (`rate` -> `rates`) */
+  terms: string[];
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  if (terms.length === 0 || !text) return <>{text}</>;
+
+  const pattern = new RegExp(
+    `(\\b(?:${terms.map(escapeRegExp).join("|")})\\w*)`,
+    "gi"
+  );
+  // split() with a capture group keeps the matches at odd indexes
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark
+            key={i}
+            className="bg-amber-400/25 text-amber-100 rounded px-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
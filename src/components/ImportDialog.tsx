@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  IMPORT_FIELDS,
+  PREVIEW_ROWS,
+  applyMapping,
+  guessMapping,
+  importRecords,
+  parseImport,
+  previewImport
+} from "../data/import";
+import type {
+  ImportFormat,
+  ImportMapping,
+  ImportPreview,
+  ImportResult,
+  ParsedImport
+} from "../data/import";
+
+interface ImportDialogProps {
+  onClose: () => void;
+  /** Called after rows were written, so the caller can reload */
+  onImported: (result: ImportResult) => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  auto: "Detect",
+  csv: "CSV",
+  json: "JSON / NDJSON",
+  text: "Plain text (one record per paragraph)"
+};
+
+const FIELD_LABELS: Record<keyof ImportMapping, string> = {
+  content: "Content",
+  source: "Source",
+  url: "URL",
+  created_at: "Date"
+};
+
+const DEDUP_LABELS = {
+  new: { text: "new", className: "text-emerald-300" },
+  skip: { text: "duplicate, skipped", className: "text-slate-500" },
+  link: { text: "duplicate, linked", className: "text-amber-300" }
+} as const;
+
+export function ImportDialog({ onClose, onImported }: ImportDialogProps) {
+  const [input, setInput] = useState("");
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [format, setFormat] = useState<ImportFormat>("auto");
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [source, setSource] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importing = progress !== null;
+
+  const parsed = useMemo((): ParsedImport | { error: string } | null => {
+    if (!input.trim()) return null;
+    try {
+      return parseImport(input, format, fileName);
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [input, format, fileName]);
+  const ok = parsed && "items" in parsed ? parsed : null;
+
+  // new columns: start over from a guess, a stale preview no longer applies
+  const columnsKey = ok?.columns.join("\u0000") ?? "";
+  const [mappedColumns, setMappedColumns] = useState("");
+  if (mappedColumns !== columnsKey) {
+    setMappedColumns(columnsKey);
+    setMapping(ok ? guessMapping(ok.columns) : null);
+    setPreview(null);
+  }
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !importing) onClose();
+    };
+    document.addEventListener("keydown", onKey);
+    return () => document.removeEventListener("keydown", onKey);
+  }, [importing, onClose]);
+
+  const rows = useMemo(
+    () => (ok && mapping ? applyMapping(ok.items, mapping) : []),
+    [ok, mapping]
+  );
+
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setInput(await file.text());
+  };
+
+  const runPreview = async () => {
+    setError(null);
+    setPreviewing(true);
+    try {
+      setPreview(await previewImport(rows, source.trim()));
+    } catch (e) {
+      setError(`Preview failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // after a failed chunk, importing again sends only the rows not yet saved
+  const resume = result?.failure ? result : undefined;
+  const remaining = rows.length - (resume?.failure?.atRow ?? 0);
+
+  const runImport = async () => {
+    setError(null);
+    setResult(null);
+    setProgress({ done: resume?.failure?.atRow ?? 0, total: rows.length });
+    try {
+      const r = await importRecords(
+        rows,
+        source.trim(),
+        (done, total) => setProgress({ done, total }),
+        resume
+      );
+      setResult(r);
+      // a partial import still added rows: refresh the list either way
+      onImported(r);
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4"
+      onClick={() => !importing && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-900 rounded-2xl shadow-2xl border border-white/10 p-6 md:p-8"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="import-title" className="text-white">
+            Import Records
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={importing}
+            aria-label="Close"
+            className="text-slate-400 hover:text-white transition disabled:opacity-60"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Input */}
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <label className="px-4 py-2 rounded-xl border border-white/10 text-slate-200 bg-slate-800/60 hover:bg-slate-700/60 transition cursor-pointer">
+            Choose file…
+            <input
+              type="file"
+              accept=".csv,.json,.ndjson,.jsonl,.txt,.md,text/*,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) readFile(f);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {fileName && <span className="text-sm text-slate-400">{fileName}</span>}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImportFormat)}
+            className="ml-auto px-3 py-2 rounded-xl bg-slate-800/60 border border-white/10 text-slate-200 text-sm"
+          >
+            {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {FORMAT_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setFileName(undefined);
+            setResult(null);
+          }}
+          placeholder="…or paste CSV, JSON, NDJSON or plain text here"
+          rows={7}
+          className="w-full px-4 py-3 rounded-xl bg-slate-800/60 border border-white/10 text-slate-200 text-sm font-mono placeholder-slate-500 focus:outline-none focus:border-blue-500/50"
+        />
+
+        {parsed && "error" in parsed && (
+          <div className="mt-3 text-sm text-rose-300">{parsed.error}</div>
+        )}
+
+        {/* Column mapping */}
+        {ok && mapping && (
+          <div className="mt-6">
+            <div className="text-sm text-slate-400 mb-3">
+              {ok.items.length} {ok.items.length === 1 ? "record" : "records"} read as{" "}
+              {FORMAT_LABELS[ok.format]}. Map the columns:
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-3 text-sm">
+                  <span className="w-20 text-slate-300">
+                    {FIELD_LABELS[field]}
+                    {field === "content" && <span className="text-rose-400"> *</span>}
+                  </span>
+                  <select
+                    value={mapping[field]}
+                    onChange={(e) => {
+                      setMapping({ ...mapping, [field]: e.target.value });
+                      setPreview(null);
+                      setResult(null);
+                    }}
+                    className="flex-1 px-3 py-2 rounded-lg bg-slate-800/60 border border-white/10 text-slate-200"
+                  >
+                    <option value="">—</option>
+                    {ok.columns.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="flex items-center gap-3 text-sm">
+                <span className="w-20 text-slate-300">Default source</span>
+                <input
+                  value={source}
+                  onChange={(e) => {
+                    setSource(e.target.value);
+                    setPreview(null);
+                  }}
+                  placeholder="import"
+                  title="Used for rows without a source column value"
+                  className="flex-1 px-3 py-2 rounded-lg bg-slate-800/60 border border-white/10 text-slate-200 placeholder-slate-500"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="mt-6 text-sm">
+            <div className="text-slate-400 mb-2">
+              Preview of the first {Math.min(PREVIEW_ROWS, rows.length)} rows:{" "}
+              {preview.valid} valid
+            </div>
+            <ul className="space-y-2 max-h-72 overflow-y-auto">
+              {preview.rows.map((r, i) => (
+                <li
+                  key={i}
+                  className="p-3 bg-slate-800/60 rounded-lg border border-white/5"
+                >
+                  <div className="flex flex-wrap gap-3 text-xs mb-1">
+                    <span className="text-blue-300">{r.source}</span>
+                    {r.created_at && <span className="text-slate-400">{r.created_at}</span>}
+                    <span className={DEDUP_LABELS[r.dedup.action].className}>
+                      {DEDUP_LABELS[r.dedup.action].text}
+                    </span>
+                  </div>
+                  <div className="text-slate-200 line-clamp-2">{r.content}</div>
+                </li>
+              ))}
+            </ul>
+            <IssueList issues={preview.issues} />
+          </div>
+        )}
+
+        {/* Result */}
+        {result?.failure && (
+          <div className="mt-6 text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+            Import stopped at row {result.failure.atRow + 1}: {result.failure.error}.
+            The rows before it are saved; import again to send the remaining{" "}
+            {remaining}.
+          </div>
+        )}
+        {result && (
+          <div className="mt-6 text-sm rounded-lg px-3 py-2 border text-emerald-300 bg-emerald-900/30 border-emerald-600/30">
+            Imported {result.insertedCount} of {result.fetchedCount} rows
+            {result.skippedDuplicates > 0 &&
+              ` • ${result.skippedDuplicates} duplicates skipped`}
+            {result.linkedDuplicates > 0 &&
+              ` • ${result.linkedDuplicates} linked to an existing record`}
+            <IssueList issues={result.issues} />
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="mt-6 flex flex-wrap justify-end gap-3">
+          <button
+            onClick={runPreview}
+            disabled={!rows.length || !mapping?.content || previewing || importing}
+            className="px-4 py-2 rounded-xl border border-white/10 text-slate-200 bg-slate-800/60 hover:bg-slate-700/60 transition disabled:opacity-60"
+          >
+            {previewing ? "Checking…" : "Preview"}
+          </button>
+          <button
+            onClick={runImport}
+            disabled={!rows.length || !mapping?.content || importing}
+            className="px-4 py-2 rounded-xl border border-white/10 text-white bg-indigo-600/90 hover:bg-indigo-600 transition disabled:opacity-60"
+          >
+            {progress
+              ? `Importing… ${progress.done}/${progress.total}`
+              : resume
+                ? `Import remaining ${remaining}`
+                : `Import ${rows.length || ""} ${rows.length === 1 ? "record" : "records"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ---- Per-row errors / warnings, numbered like the input (1-based) ---- */
+function IssueList({ issues }: { issues: ImportPreview["issues"] }) {
+  if (!issues.length) return null;
+  return (
+    <ul className="mt-3 space-y-1 text-xs max-h-40 overflow-y-auto">
+      {issues.map((i) => (
+        <li key={i.index} className={i.error ? "text-rose-300" : "text-amber-300"}>
+          Row {i.index + 1}: {[i.error, ...(i.warnings ?? [])].filter(Boolean).join("; ")}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,120 @@
+import type { KeywordFacet } from "../data/records";
+import { KEYWORD_MATCHES } from "../data/query";
+import type { KeywordMatch } from "../data/query";
+
+interface KeywordFacetsProps {
+  facets: KeywordFacet[];
+  selected: string[];
+  match: KeywordMatch;
+  onToggle: (keyword: string) => void;
+  onMatchChange: (match: KeywordMatch) => void;
+  onClear: () => void;
+}
+
+export function KeywordFacets({
+  facets,
+  selected,
+  match,
+  onToggle,
+  onMatchChange,
+  onClear
+}: KeywordFacetsProps) {
+  // keep selected keywords visible even when they fall out of the top N;
+  // their count isn't known (the RPC only returns the top N), so none is shown
+  const shown: { keyword: string; count: number | null }[] = [
+    ...selected
+      .filter((k) => !facets.some((f) => f.keyword === k))
+      .map((keyword) => ({ keyword, count: null })),
+    ...facets
+  ];
+  const maxCount = Math.max(1, ...facets.map((f) => f.count));
+
+  return (
+    <aside className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl p-6 border border-white/10 h-fit lg:sticky lg:top-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white flex items-center gap-2">
+          <svg
+            className="w-4 h-4 text-blue-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+            />
+          </svg>
+          Keywords
+        </h3>
+        {selected.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-sm text-slate-400 hover:text-white transition"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* AND / OR */}
+      <div className="flex bg-slate-700/30 rounded-xl p-1 border border-white/5 mb-4">
+        {KEYWORD_MATCHES.map((m) => (
+          <button
+            key={m}
+            onClick={() => onMatchChange(m)}
+            className={`flex-1 px-3 py-1.5 rounded-lg text-sm transition ${
+              match === m
+                ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+                : "text-slate-400 hover:text-white"
+            }`}
+            title={
+              m === "all"
+                ? "Records with every selected keyword"
+                : "Records with any selected keyword"
+            }
+          >
+            {m === "all" ? "Match all" : "Match any"}
+          </button>
+        ))}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-slate-500 text-sm">No keywords in this view</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {shown.map((f) => {
+            const active = selected.includes(f.keyword);
+            return (
+              <li key={f.keyword}>
+                <button
+                  onClick={() => onToggle(f.keyword)}
+                  aria-pressed={active}
+                  className={`relative w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg border text-left overflow-hidden transition ${
+                    active
+                      ? "border-blue-500/50 text-white bg-blue-500/20"
+                      : "border-transparent text-slate-300 hover:bg-slate-700/40"
+                  }`}
+                >
+                  {f.count !== null && (
+                    <span
+                      className="absolute inset-y-0 left-0 bg-blue-500/10"
+                      style={{ width: `${(f.count / maxCount) * 100}%` }}
+                    />
+                  )}
+                  <span className="relative truncate">{f.keyword}</span>
+                  {f.count !== null && (
+                    <span className="relative text-slate-500 text-sm">
+                      {f.count}
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
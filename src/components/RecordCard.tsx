@@ -1,9 +1,27 @@
-import type { AnalyzedRecord } from "../data/types";
+import { useEffect, useState } from "react";
+import type { AnalysisVersion, AnalyzedRecord } from "../data/types";
 import { StarRating } from "./StarRating";
+import { Highlight } from "./Highlight";
+import { AnalysisHistory } from "./AnalysisHistory";
 
 interface RecordCardProps {
   record: AnalyzedRecord;
   onRatingChange: (id: string, rating: number) => void;
+  ratingError?: string;
+  /** Search words to mark in the content and summary */
+  highlightTerms?: string[];
+  /** Keywords currently used as a filter (chips render as active) */
+  selectedKeywords?: string[];
+  onKeywordClick?: (keyword: string) => void;
+  /** Re-queue a failed/skipped analysis */
+  onRetry?: (id: string) => void;
+  retrying?: boolean;
+  retryError?: string;
+  /** Multi-select for DataList's bulk re-analyze; no checkbox without a handler */
+  selected?: boolean;
+  onSelectChange?: (id: string, selected: boolean) => void;
+  /** Every stored analysis of the record, newest first; no History button without it */
+  onLoadHistory?: (id: string) => Promise<AnalysisVersion[]>;
 }
 
 /* --------- Raw shape support (screenshot fields) --------- */
@@ -141,6 +159,8 @@ function getViewModel(rec: FlexibleRecord) {
 
   const createdAt =
     parseMaybeDate(coalesce<string>(rec.created_at, rec.Date)) ?? new Date();
+  // parsed from e.g. "3 days ago" at ingestion; preferred over the scrape time
+  const publishedAt = parseMaybeDate(rec.publishedAt);
 
   const imageDataUrl =
     typeof rec.Image === "string" && rec.Image.startsWith("data:image")
@@ -170,14 +190,51 @@ function getViewModel(rec: FlexibleRecord) {
     url,
     source,
     createdAt,
+    publishedAt,
     imageDataUrl,
     analysis
   };
 }
 
 /* ----------------- Component ----------------- */
-export function RecordCard({ record, onRatingChange }: RecordCardProps) {
+export function RecordCard({
+  record,
+  onRatingChange,
+  ratingError,
+  highlightTerms = [],
+  selectedKeywords = [],
+  onKeywordClick,
+  onRetry,
+  retrying = false,
+  retryError,
+  selected = false,
+  onSelectChange,
+  onLoadHistory
+}: RecordCardProps) {
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<AnalysisVersion[] | null>(null);
+  // the current analysis the history was loaded for; a new one means reload
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
   const vm = getViewModel(record as FlexibleRecord);
+  // analyze-records gave up on it (dead letter) or found nothing to analyze
+  const failed =
+    record.analysisStatus === "failed" || record.analysisStatus === "skipped";
+  // only DB rows carry analyzedAt; raw Apify shapes count as analyzed
+  const pending = record.analyzedAt === null && !failed;
+  // requeued: the previous analysis stays until the new one replaces it
+  const reanalyzing =
+    !!record.analyzedAt &&
+    (record.analysisStatus === "pending" ||
+      record.analysisStatus === "processing");
+  // pending again after a failed attempt, waiting for its backoff
+  const backoff =
+    pending && record.lastError && record.nextAttemptAt
+      ? parseMaybeDate(record.nextAttemptAt)
+      : null;
+  const original = record.duplicateOf;
 
   const sentimentColors = {
     positive: "from-emerald-500/20 to-green-500/20 border-emerald-500/30",
@@ -208,13 +265,61 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
 
   const cap = (s: string) => s.slice(0, 1).toUpperCase() + s.slice(1);
 
+  const toggleHistory = () => setHistoryOpen((open) => !open);
+
+  /* load when the drawer opens, and again when a new analysis lands while it's open */
+  const recordId = record.id;
+  const currentAnalysisId = record.currentAnalysisId ?? null;
+  const historyStale = !history || historyFor !== currentAnalysisId;
+  useEffect(() => {
+    if (!historyOpen || !onLoadHistory || !historyStale) return;
+    let cancelled = false;
+    setHistoryLoading(true);
+    setHistoryError(null);
+    onLoadHistory(recordId)
+      .then((versions) => {
+        if (cancelled) return;
+        setHistory(versions);
+        setHistoryFor(currentAnalysisId);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        const msg = e instanceof Error ? e.message : String(e);
+        setHistoryError(`Could not load history: ${msg || "Unknown error"}`);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyOpen, historyStale, onLoadHistory, recordId, currentAnalysisId]);
+
   return (
-    <div className="group bg-slate-800/40 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/10 overflow-hidden hover:border-white/20 hover:shadow-blue-500/10 transition-all duration-300">
+    <div
+      id={`record-${vm.id}`}
+      className={`group bg-slate-800/40 backdrop-blur-xl rounded-2xl shadow-2xl border overflow-hidden hover:shadow-blue-500/10 transition-all duration-300 ${
+        selected
+          ? "border-indigo-500/50"
+          : "border-white/10 hover:border-white/20"
+      }`}
+    >
       <div className="p-6 md:p-8">
         {/* Header */}
         <div className="flex items-start justify-between mb-6 gap-4">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 mb-2">
+              {onSelectChange && (
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={(e) =>
+                    onSelectChange(vm.id, e.currentTarget.checked)
+                  }
+                  aria-label="Select record"
+                  className="w-4 h-4 accent-indigo-500 cursor-pointer"
+                />
+              )}
               <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-blue-500/20 to-purple-500/20 border border-blue-500/30 flex items-center justify-center">
                 <svg
                   className="w-4 h-4 text-blue-400"
@@ -240,8 +345,15 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
               </h3>
             )}
 
-            {/* CREATED AT */}
-            <div className="flex items-center gap-2 text-slate-500">
+            {/* PUBLISHED AT, else CREATED AT */}
+            <div
+              className="flex items-center gap-2 text-slate-500"
+              title={
+                vm.publishedAt
+                  ? `Published ${formatDate(vm.publishedAt)} · scraped ${formatDate(vm.createdAt)}`
+                  : "Publish time unknown; showing when it was scraped"
+              }
+            >
               <svg
                 className="w-4 h-4"
                 fill="none"
@@ -255,20 +367,68 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
                   d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
                 />
               </svg>
-              {formatDate(vm.createdAt)}
+              {formatDate(vm.publishedAt ?? vm.createdAt)}
             </div>
+
+            {/* DUPLICATE OF (syndicated copy, see fetch-apify dedup) */}
+            {original && (
+              <a
+                // the original's article if known, else its card when loaded
+                href={original.url ?? `#record-${original.id}`}
+                {...(original.url ? { target: "_blank", rel: "noreferrer" } : {})}
+                title={`Original record ${original.id}`}
+                className="inline-flex items-center gap-1.5 mt-2 px-2.5 py-1 rounded-lg border text-xs bg-indigo-500/15 text-indigo-300 border-indigo-500/30 hover:text-indigo-200 transition"
+              >
+                <svg
+                  className="w-3.5 h-3.5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                  />
+                </svg>
+                Duplicate of {original.source ?? "an earlier record"}
+              </a>
+            )}
           </div>
 
-          <span
-            className={`px-4 py-2 rounded-xl border backdrop-blur-xl ${
-              sentimentBadgeColors[vm.analysis.sentiment]
-            }`}
-          >
-            <span className="mr-2">
-              {sentimentIcons[vm.analysis.sentiment]}
+          {failed ? (
+            <span
+              className={`px-4 py-2 rounded-xl border backdrop-blur-xl ${
+                record.analysisStatus === "failed"
+                  ? "bg-rose-500/20 text-rose-300 border-rose-500/30"
+                  : "bg-slate-500/20 text-slate-300 border-slate-500/30"
+              }`}
+              title={record.lastError ?? undefined}
+            >
+              <span className="mr-2">⚠️</span>
+              {record.analysisStatus === "failed" ? "Failed" : "Skipped"}
+            </span>
+          ) : pending ? (
+            <span
+              className="px-4 py-2 rounded-xl border backdrop-blur-xl bg-amber-500/20 text-amber-300 border-amber-500/30"
+              title={record.lastError ?? undefined}
+            >
+              <span className="mr-2">⏳</span>
+              {backoff ? "Retrying" : "Pending"}
+            </span>
+          ) : (
+            <span
+              className={`px-4 py-2 rounded-xl border backdrop-blur-xl ${
+                sentimentBadgeColors[vm.analysis.sentiment]
+              }`}
+            >
+              <span className="mr-2">
+                {sentimentIcons[vm.analysis.sentiment]}
+              </span>
+              {cap(vm.analysis.sentiment)}
             </span>
-            {cap(vm.analysis.sentiment)}
-          </span>
+          )}
         </div>
 
         {/* Optional image */}
@@ -286,7 +446,7 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
         {/* CONTENT */}
         <div className="mb-6">
           <div className="text-slate-200 leading-relaxed p-5 bg-slate-700/30 rounded-xl border border-white/5 backdrop-blur-sm">
-            {vm.displayContent}
+            <Highlight text={vm.displayContent} terms={highlightTerms} />
           </div>
 
           {/* URL (separate + clean) */}
@@ -318,79 +478,178 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
         </div>
 
         {/* Analysis */}
-        <div
-          className={`bg-gradient-to-br ${
-            sentimentColors[vm.analysis.sentiment]
-          } rounded-2xl p-6 border backdrop-blur-xl mb-6 group-hover:border-white/20 transition-all duration-300`}
-        >
-          <div className="flex items-center gap-3 mb-4">
-            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shadow-lg shadow-blue-500/30">
-              <svg
-                className="w-5 h-5 text-white"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
-                />
-              </svg>
+        {failed ? (
+          <div className="bg-rose-900/10 rounded-2xl p-6 border border-dashed border-rose-500/30 backdrop-blur-xl mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="text-rose-300">
+                {record.analysisStatus === "failed"
+                  ? `Analysis failed after ${record.attempts ?? 0} ${
+                      record.attempts === 1 ? "attempt" : "attempts"
+                    }`
+                  : "Analysis skipped"}
+              </div>
+              {onRetry && (
+                <button
+                  onClick={() => onRetry(vm.id)}
+                  disabled={retrying}
+                  className="px-4 py-2 rounded-xl border border-white/10 text-white bg-indigo-600/90 hover:bg-indigo-600 transition disabled:opacity-60"
+                >
+                  {retrying ? "Retrying…" : "Retry"}
+                </button>
+              )}
             </div>
-            <h4 className="text-white">OpenAI Analysis</h4>
+            {record.lastError && (
+              <pre className="mt-3 text-xs text-rose-200/80 whitespace-pre-wrap break-words font-mono max-h-40 overflow-y-auto">
+                {record.lastError}
+              </pre>
+            )}
+            {retryError && (
+              <div className="mt-3 text-sm text-rose-300">{retryError}</div>
+            )}
           </div>
-
-          <div className="mb-5">
-            <p className="text-slate-200 leading-relaxed">
-              {vm.analysis.summary}
-            </p>
+        ) : pending ? (
+          <div className="bg-slate-700/20 rounded-2xl p-6 border border-dashed border-amber-500/30 backdrop-blur-xl mb-6 flex items-center gap-3 text-slate-400">
+            <svg
+              className="w-5 h-5 text-amber-300 animate-spin"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+            >
+              <path
+                d="M12 3a9 9 0 100 18 9 9 0 000-18z"
+                strokeWidth="2"
+                strokeOpacity="0.2"
+              />
+              <path d="M12 3a9 9 0 019 9" strokeWidth="2" />
+            </svg>
+            {backoff ? (
+              <span title={record.lastError ?? undefined}>
+                Attempt {record.attempts} failed; retrying after{" "}
+                {formatDate(backoff)}
+              </span>
+            ) : (
+              "Waiting for OpenAI analysis…"
+            )}
           </div>
+        ) : (
+          <div
+            className={`bg-gradient-to-br ${
+              sentimentColors[vm.analysis.sentiment]
+            } rounded-2xl p-6 border backdrop-blur-xl mb-6 group-hover:border-white/20 transition-all duration-300`}
+          >
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shadow-lg shadow-blue-500/30">
+                <svg
+                  className="w-5 h-5 text-white"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+                  />
+                </svg>
+              </div>
+              <div className="min-w-0">
+                <h4 className="text-white">OpenAI Analysis</h4>
+                {(record.analysisModel || record.analysisPromptVersion) && (
+                  <div className="text-xs text-slate-400 truncate">
+                    {record.analysisModel ?? "unknown model"} · prompt{" "}
+                    {record.analysisPromptVersion ?? "?"}
+                  </div>
+                )}
+              </div>
+              <div className="ml-auto flex items-center gap-2">
+                {reanalyzing && (
+                  <span className="px-3 py-1 rounded-lg border text-xs bg-amber-500/20 text-amber-300 border-amber-500/30">
+                    ⏳ Re-analyzing
+                  </span>
+                )}
+                {onLoadHistory && (
+                  <button
+                    onClick={toggleHistory}
+                    aria-expanded={historyOpen}
+                    className="px-3 py-1 rounded-lg border text-xs border-white/10 text-slate-300 bg-slate-800/60 hover:text-white hover:border-white/20 transition"
+                  >
+                    {historyOpen ? "Hide history" : "History"}
+                  </button>
+                )}
+              </div>
+            </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-5">
-            <div className="bg-slate-800/40 backdrop-blur-sm rounded-xl p-4 border border-white/10">
-              <div className="text-slate-400 mb-1">Sentiment</div>
-              <div className="text-white flex items-center gap-2">
-                <span>{sentimentIcons[vm.analysis.sentiment]}</span>
-                <span>{cap(vm.analysis.sentiment)}</span>
+            {/* History drawer: every stored analysis, diffed version to version */}
+            {historyOpen && (
+              <div className="mb-5 p-4 rounded-xl border border-white/10 bg-slate-900/40">
+                <AnalysisHistory
+                  versions={history}
+                  loading={historyLoading}
+                  error={historyError}
+                  currentId={record.currentAnalysisId}
+                />
               </div>
+            )}
+
+            <div className="mb-5">
+              <p className="text-slate-200 leading-relaxed">
+                <Highlight text={vm.analysis.summary} terms={highlightTerms} />
+              </p>
             </div>
 
-            <div className="bg-slate-800/40 backdrop-blur-sm rounded-xl p-4 border border-white/10">
-              <div className="text-slate-400 mb-2">Confidence</div>
-              <div className="flex items-center gap-3">
-                <div className="flex-1 h-2.5 bg-slate-700/50 rounded-full overflow-hidden">
-                  <div
-                    className="h-full bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 rounded-full transition-all duration-500 shadow-lg"
-                    style={{
-                      width: `${Math.round(vm.analysis.confidence * 100)}%`
-                    }}
-                  />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-5">
+              <div className="bg-slate-800/40 backdrop-blur-sm rounded-xl p-4 border border-white/10">
+                <div className="text-slate-400 mb-1">Sentiment</div>
+                <div className="text-white flex items-center gap-2">
+                  <span>{sentimentIcons[vm.analysis.sentiment]}</span>
+                  <span>{cap(vm.analysis.sentiment)}</span>
                 </div>
-                <span className="text-white min-w-[3rem] text-right">
-                  {Math.round(vm.analysis.confidence * 100)}%
-                </span>
               </div>
-            </div>
-          </div>
 
-          {vm.analysis.keywords.length > 0 && (
-            <div>
-              <div className="text-slate-400 mb-3">Keywords</div>
-              <div className="flex flex-wrap gap-2">
-                {vm.analysis.keywords.map((keyword: string, i: number) => (
-                  <span
-                    key={`${keyword}-${i}`}
-                    className="px-4 py-2 bg-slate-800/60 backdrop-blur-sm text-slate-200 rounded-lg border border-white/10 shadow-sm hover:border-white/20 transition-all"
-                  >
-                    {keyword}
+              <div className="bg-slate-800/40 backdrop-blur-sm rounded-xl p-4 border border-white/10">
+                <div className="text-slate-400 mb-2">Confidence</div>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-2.5 bg-slate-700/50 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 rounded-full transition-all duration-500 shadow-lg"
+                      style={{
+                        width: `${Math.round(vm.analysis.confidence * 100)}%`
+                      }}
+                    />
+                  </div>
+                  <span className="text-white min-w-[3rem] text-right">
+                    {Math.round(vm.analysis.confidence * 100)}%
                   </span>
-                ))}
+                </div>
               </div>
             </div>
-          )}
-        </div>
+
+            {vm.analysis.keywords.length > 0 && (
+              <div>
+                <div className="text-slate-400 mb-3">Keywords</div>
+                <div className="flex flex-wrap gap-2">
+                  {vm.analysis.keywords.map((keyword: string, i: number) => (
+                    <button
+                      key={`${keyword}-${i}`}
+                      onClick={() => onKeywordClick?.(keyword)}
+                      disabled={!onKeywordClick}
+                      aria-pressed={selectedKeywords.includes(keyword)}
+                      title={`Filter by “${keyword}”`}
+                      className={`px-4 py-2 backdrop-blur-sm rounded-lg border shadow-sm transition-all disabled:cursor-default ${
+                        selectedKeywords.includes(keyword)
+                          ? "bg-blue-500/20 text-white border-blue-500/50"
+                          : "bg-slate-800/60 text-slate-200 border-white/10 hover:border-white/20"
+                      }`}
+                    >
+                      {keyword}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Rating */}
         <div className="border-t border-white/10 pt-6">
@@ -418,6 +677,11 @@ export function RecordCard({ record, onRatingChange }: RecordCardProps) {
               size="md"
             />
           </div>
+          {ratingError && (
+            <div className="mt-3 text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+              {ratingError}
+            </div>
+          )}
         </div>
       </div>
     </div>
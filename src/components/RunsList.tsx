@@ -0,0 +1,338 @@
+import { Fragment, useState } from "react";
+import type { JobKind, JobRun, JobRunDetails, JobStatus } from "../data/runs";
+
+interface RunsListProps {
+  runs: JobRun[];
+  job: JobKind | "all";
+  onJobChange: (job: JobKind | "all") => void;
+  loading?: boolean;
+  error?: string | null;
+  hasMore: boolean;
+  loadingMore?: boolean;
+  onLoadMore: () => void;
+  /** Lazily loads the per-source / per-record drill-down of one run */
+  onLoadDetails: (id: string) => Promise<JobRunDetails>;
+}
+
+const JOB_FILTERS = [
+  { id: "all", label: "All" },
+  { id: "ingest", label: "Ingestion" },
+  { id: "analyze", label: "Analysis" }
+] as const;
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  running: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  succeeded: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
+  partial: "bg-amber-500/20 text-amber-300 border-amber-500/30",
+  failed: "bg-rose-500/20 text-rose-300 border-rose-500/30"
+};
+
+/* counters shown per job type, in column order */
+const COUNT_LABELS: Record<JobKind, [key: string, label: string][]> = {
+  ingest: [
+    ["fetchedCount", "fetched"],
+    ["normalizedCount", "normalized"],
+    ["insertedCount", "inserted"]
+  ],
+  analyze: [
+    ["processed", "processed"],
+    ["failed", "failed"],
+    ["deadLettered", "gave up"]
+  ]
+};
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return "running…";
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return m < 60 ? `${m}m ${s % 60}s` : `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+const formatDate = (iso: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).format(new Date(iso));
+
+export function RunsList({
+  runs,
+  job,
+  onJobChange,
+  loading = false,
+  error = null,
+  hasMore,
+  loadingMore = false,
+  onLoadMore,
+  onLoadDetails
+}: RunsListProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, JobRunDetails>>({});
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+
+  const toggle = async (run: JobRun) => {
+    if (expanded === run.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(run.id);
+    setDetailsError(null);
+    // a running job's details are still changing; finished ones are cached
+    if (details[run.id] && run.finishedAt) return;
+    try {
+      const d = await onLoadDetails(run.id);
+      setDetails((prev) => ({ ...prev, [run.id]: d }));
+    } catch (e) {
+      setDetailsError(String(e instanceof Error ? e.message : e));
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/10 p-6 md:p-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-white flex items-center gap-3">
+          <svg
+            className="w-6 h-6 text-blue-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+          Pipeline Runs
+        </h2>
+        <div className="flex bg-slate-700/30 rounded-xl p-1 border border-white/5">
+          {JOB_FILTERS.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => onJobChange(f.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition ${
+                job === f.id
+                  ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+                  : "text-slate-400 hover:text-white"
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+          {error}
+        </div>
+      ) : (
+        <div className={`overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-white/10 text-slate-400">
+                <th className="py-3 pr-4 font-normal">Job</th>
+                <th className="py-3 pr-4 font-normal">Status</th>
+                <th className="py-3 pr-4 font-normal">Started</th>
+                <th className="py-3 pr-4 font-normal">Duration</th>
+                <th className="py-3 pr-4 font-normal">Counts</th>
+                <th className="py-3 font-normal">First Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => {
+                const d = details[run.id];
+                return (
+                  <Fragment key={run.id}>
+                    <tr
+                      onClick={() => toggle(run)}
+                      className={`border-b border-white/5 cursor-pointer transition ${
+                        expanded === run.id
+                          ? "bg-slate-700/30"
+                          : "hover:bg-slate-700/20"
+                      }`}
+                    >
+                      <td className="py-3 pr-4 text-white whitespace-nowrap">
+                        <span className="text-slate-500 mr-2">
+                          {expanded === run.id ? "▾" : "▸"}
+                        </span>
+                        {run.job === "ingest" ? "Ingestion" : "Analysis"}
+                        <span className="ml-2 text-slate-500 text-xs">
+                          {run.trigger}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span
+                          className={`px-2.5 py-1 rounded-lg border text-xs ${
+                            STATUS_COLORS[run.status]
+                          }`}
+                        >
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-slate-300 whitespace-nowrap">
+                        {formatDate(run.startedAt)}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-300 whitespace-nowrap">
+                        {formatDuration(run)}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-300 whitespace-nowrap">
+                        {COUNT_LABELS[run.job].map(([key, label]) => (
+                          <span key={key} className="mr-3">
+                            <span className="text-white">
+                              {run.counts[key] ?? 0}
+                            </span>{" "}
+                            <span className="text-slate-500 text-xs">
+                              {label}
+                            </span>
+                          </span>
+                        ))}
+                      </td>
+                      <td
+                        className="py-3 text-rose-300 text-sm max-w-[20rem] truncate"
+                        title={run.firstError ?? undefined}
+                      >
+                        {run.firstError ?? (
+                          <span className="text-slate-600">—</span>
+                        )}
+                      </td>
+                    </tr>
+
+                    {expanded === run.id && (
+                      <tr className="border-b border-white/5 bg-slate-900/30">
+                        <td colSpan={6} className="px-4 py-4">
+                          {detailsError ? (
+                            <div className="text-sm text-rose-300">
+                              {detailsError}
+                            </div>
+                          ) : !d ? (
+                            <div className="text-sm text-slate-400">
+                              Loading details…
+                            </div>
+                          ) : (
+                            <RunDetails run={run} details={d} />
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+              {runs.length === 0 && !loading && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-slate-500">
+                    No runs recorded yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {hasMore && !error && (
+        <div className="mt-6 flex justify-center">
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="px-5 py-2.5 rounded-xl border border-white/10 text-slate-200 bg-slate-700/50 hover:bg-slate-700 transition disabled:opacity-60"
+          >
+            {loadingMore ? "Loading…" : "Load older runs"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ---- Drill-down: sources of an ingest run, failed records of an analysis ---- */
+function RunDetails({ run, details }: { run: JobRun; details: JobRunDetails }) {
+  if (run.job === "ingest") {
+    const sources = details.sources ?? [];
+    if (!sources.length) {
+      return <div className="text-sm text-slate-500">No per-source results.</div>;
+    }
+    return (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-slate-500">
+            <th className="py-1.5 pr-4 font-normal text-left">Source</th>
+            <th className="py-1.5 pr-4 font-normal text-left">Dataset / Feed</th>
+            <th className="py-1.5 pr-4 font-normal text-right">Fetched</th>
+            <th className="py-1.5 pr-4 font-normal text-right">Normalized</th>
+            <th className="py-1.5 pr-4 font-normal text-right">Inserted</th>
+            <th className="py-1.5 pr-4 font-normal text-right">Duplicates</th>
+            <th className="py-1.5 font-normal text-left">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sources.map((s, i) => (
+            <tr key={s.sourceId ?? `${s.name}-${i}`} className="text-slate-300">
+              <td className="py-1.5 pr-4 text-white">{s.name}</td>
+              <td className="py-1.5 pr-4 font-mono text-xs text-slate-400">
+                {s.datasetId ?? "—"}
+              </td>
+              <td className="py-1.5 pr-4 text-right">{s.fetchedCount}</td>
+              <td className="py-1.5 pr-4 text-right">{s.normalizedCount}</td>
+              <td className="py-1.5 pr-4 text-right">{s.insertedCount}</td>
+              <td
+                className="py-1.5 pr-4 text-right"
+                title="skipped re-scrapes / linked copies"
+              >
+                {s.skippedDuplicates ?? 0} / {s.linkedDuplicates ?? 0}
+              </td>
+              <td className="py-1.5 text-rose-300">
+                {s.error ?? (s.note ? <span className="text-amber-300">{s.note}</span> : "")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const errors = details.errors ?? [];
+  const t = details.throughput;
+  return (
+    <div className="text-sm">
+      {t && (
+        <div className="mb-3 text-slate-400">
+          <span className="text-white">{t.perMinute}</span> records/min ·{" "}
+          {t.concurrency} workers · {(t.elapsedMs / 1000).toFixed(1)}s
+          {t.rateLimitPauses > 0 &&
+            ` · ${t.rateLimitPauses} rate-limit pauses (${(t.waitedMs / 1000).toFixed(1)}s waited)`}
+        </div>
+      )}
+      {details.stoppedOnBudget && (
+        <div className="mb-3 text-amber-300">
+          Time budget spent with records still pending; the next run continues.
+        </div>
+      )}
+      {details.stoppedOnQuota && (
+        <div className="mb-3 text-amber-300">
+          Stopped early: the model provider reported a quota or authentication error.
+        </div>
+      )}
+      {errors.length === 0 ? (
+        <div className="text-slate-500">No record failed in this run.</div>
+      ) : (
+        <ul className="space-y-2">
+          {errors.map((e) => (
+            <li
+              key={e.id}
+              className="p-3 bg-slate-800/60 rounded-lg border border-white/5"
+            >
+              <div className="font-mono text-xs text-slate-400 mb-1">{e.id}</div>
+              <div className="text-rose-300 break-words">{e.error}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { TREND_WINDOWS } from "../data/trend";
+import type { TrendWindow } from "../data/trend";
+import type { TrendPoint } from "../data/records";
+
+interface SentimentTrendProps {
+  /** Zero-filled, one point per bucket (see fillTrend) */
+  points: TrendPoint[];
+  range: TrendWindow;
+  onRangeChange: (w: TrendWindow) => void;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/* chart geometry (viewBox units; the SVG scales to its container) */
+const W = 800;
+const H = 260;
+const PAD = { top: 16, right: 44, bottom: 28, left: 40 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+const SERIES = [
+  { key: "negative", label: "Negative", color: "#f43f5e" },
+  { key: "neutral", label: "Neutral", color: "#64748b" },
+  { key: "positive", label: "Positive", color: "#10b981" }
+] as const;
+
+export function SentimentTrend({
+  points,
+  range,
+  onRangeChange,
+  loading = false,
+  error = null
+}: SentimentTrendProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const maxCount = Math.max(
+    1,
+    ...points.map((p) => p.positive + p.neutral + p.negative)
+  );
+  const slot = PLOT_W / Math.max(1, points.length);
+  const barW = Math.max(2, slot * 0.7);
+
+  const y = (count: number) => PAD.top + PLOT_H - (count / maxCount) * PLOT_H;
+  // avg score uses the right axis: -1 (bottom) .. 1 (top)
+  const yScore = (score: number) => PAD.top + ((1 - score) / 2) * PLOT_H;
+  const xCenter = (i: number) => PAD.left + slot * i + slot / 2;
+
+  // break the line over empty buckets instead of drawing through them
+  const scorePath = points
+    .map((p, i) =>
+      p.avgScore === null
+        ? null
+        : `${i > 0 && points[i - 1].avgScore !== null ? "L" : "M"}${xCenter(
+            i
+          ).toFixed(1)},${yScore(p.avgScore).toFixed(1)}`
+    )
+    .filter(Boolean)
+    .join(" ");
+
+  const formatBucket = (iso: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC"
+    }).format(new Date(iso));
+
+  // ~6 x-axis labels regardless of window size
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+  const hoveredPoint = hovered !== null ? points[hovered] : undefined;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/10 p-6 md:p-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-white flex items-center gap-3">
+          <svg
+            className="w-6 h-6 text-blue-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"
+            />
+          </svg>
+          Sentiment Trend
+        </h2>
+        <div className="flex bg-slate-700/30 rounded-xl p-1 border border-white/5">
+          {TREND_WINDOWS.map((w) => (
+            <button
+              key={w.id}
+              onClick={() => onRangeChange(w)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition ${
+                range.id === w.id
+                  ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+                  : "text-slate-400 hover:text-white"
+              }`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+          {error}
+        </div>
+      ) : (
+        <div className={`relative ${loading ? "opacity-60" : ""}`}>
+          <svg
+            viewBox={`0 0 ${W} ${H}`}
+            className="w-full h-auto"
+            onMouseLeave={() => setHovered(null)}
+            role="img"
+            aria-label={`Sentiment per ${range.bucket} over the last ${range.label}`}
+          >
+            {/* grid + left axis (counts) */}
+            {[0, 0.5, 1].map((f) => (
+              <g key={f}>
+                <line
+                  x1={PAD.left}
+                  x2={W - PAD.right}
+                  y1={y(maxCount * f)}
+                  y2={y(maxCount * f)}
+                  stroke="#334155"
+                  strokeDasharray={f === 0 ? undefined : "4 4"}
+                />
+                <text
+                  x={PAD.left - 8}
+                  y={y(maxCount * f) + 4}
+                  textAnchor="end"
+                  className="fill-slate-500 text-[11px]"
+                >
+                  {Math.round(maxCount * f)}
+                </text>
+              </g>
+            ))}
+
+            {/* right axis (avg score) */}
+            {[1, 0, -1].map((s) => (
+              <text
+                key={s}
+                x={W - PAD.right + 8}
+                y={yScore(s) + 4}
+                className="fill-indigo-300/70 text-[11px]"
+              >
+                {s > 0 ? `+${s}` : s}
+              </text>
+            ))}
+
+            {/* stacked bars */}
+            {points.map((p, i) => {
+              let base = 0;
+              return (
+                <g
+                  key={p.bucket}
+                  opacity={hovered === null || hovered === i ? 1 : 0.45}
+                >
+                  {SERIES.map((s) => {
+                    const v = p[s.key];
+                    const top = y(base + v);
+                    const h = y(base) - top;
+                    base += v;
+                    return v > 0 ? (
+                      <rect
+                        key={s.key}
+                        x={xCenter(i) - barW / 2}
+                        y={top}
+                        width={barW}
+                        height={h}
+                        fill={s.color}
+                        rx={1.5}
+                      />
+                    ) : null;
+                  })}
+                  {i % labelEvery === 0 && (
+                    <text
+                      x={xCenter(i)}
+                      y={H - 8}
+                      textAnchor="middle"
+                      className="fill-slate-500 text-[11px]"
+                    >
+                      {formatBucket(p.bucket)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {/* avg sentiment_score line */}
+            <path
+              d={scorePath}
+              fill="none"
+              stroke="#a5b4fc"
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+
+            {/* hover targets: one full-height column per bucket */}
+            {points.map((p, i) => (
+              <rect
+                key={p.bucket}
+                x={PAD.left + slot * i}
+                y={PAD.top}
+                width={slot}
+                height={PLOT_H}
+                fill="transparent"
+                onMouseEnter={() => setHovered(i)}
+              />
+            ))}
+          </svg>
+
+          {hoveredPoint && hovered !== null && (
+            <div
+              className="absolute top-2 pointer-events-none -translate-x-1/2 bg-slate-900/95 border border-white/10 rounded-xl px-4 py-3 shadow-2xl text-sm min-w-[10rem]"
+              style={{
+                // keep the tooltip inside the card near the edges
+                left: `${Math.min(
+                  85,
+                  Math.max(15, (xCenter(hovered) / W) * 100)
+                )}%`
+              }}
+            >
+              <div className="text-white mb-2">
+                {range.bucket === "week" ? "Week of " : ""}
+                {formatBucket(hoveredPoint.bucket)}
+              </div>
+              {[...SERIES].reverse().map((s) => (
+                <div
+                  key={s.key}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <span className="flex items-center gap-2 text-slate-300">
+                    <span
+                      className="w-2.5 h-2.5 rounded-sm"
+                      style={{ backgroundColor: s.color }}
+                    />
+                    {s.label}
+                  </span>
+                  <span className="text-white">{hoveredPoint[s.key]}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-4 mt-1 pt-1 border-t border-white/10">
+                <span className="text-indigo-300">Avg score</span>
+                <span className="text-white">
+                  {hoveredPoint.avgScore === null
+                    ? "—"
+                    : hoveredPoint.avgScore.toFixed(2)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* legend */}
+          <div className="flex flex-wrap items-center gap-5 mt-4 text-sm text-slate-400">
+            {[...SERIES].reverse().map((s) => (
+              <span key={s.key} className="flex items-center gap-2">
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ backgroundColor: s.color }}
+                />
+                {s.label}
+              </span>
+            ))}
+            <span className="flex items-center gap-2">
+              <span className="w-4 h-0.5 bg-indigo-300" />
+              Avg sentiment score (right axis)
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
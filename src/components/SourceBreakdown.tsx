@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+import type { SourceStats } from "../data/records";
+
+interface SourceBreakdownProps {
+  stats: SourceStats[];
+  loading?: boolean;
+  error?: string | null;
+}
+
+/* ---- sortable columns ---- */
+const COLUMNS = [
+  { key: "source", label: "Source" },
+  { key: "total", label: "Records" },
+  { key: "negativeShare", label: "Sentiment" },
+  { key: "avgScore", label: "Avg Score" },
+  { key: "avgConfidence", label: "Avg Confidence" },
+  { key: "avgRating", label: "Avg Rating" }
+] as const;
+type SortKey = (typeof COLUMNS)[number]["key"];
+
+function sortValue(s: SourceStats, key: SortKey): string | number | null {
+  if (key === "negativeShare") return s.total ? s.negative / s.total : null;
+  return s[key];
+}
+
+export function SourceBreakdown({
+  stats,
+  loading = false,
+  error = null
+}: SourceBreakdownProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("total");
+  const [desc, setDesc] = useState(true);
+
+  const sorted = useMemo(() => {
+    const arr = [...stats];
+    arr.sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      // sources without a value always go last
+      if (va === null || vb === null) {
+        return va === vb ? 0 : va === null ? 1 : -1;
+      }
+      const cmp =
+        typeof va === "string" || typeof vb === "string"
+          ? String(va).localeCompare(String(vb))
+          : va - vb;
+      return desc ? -cmp : cmp;
+    });
+    return arr;
+  }, [stats, sortKey, desc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDesc((d) => !d);
+    } else {
+      setSortKey(key);
+      setDesc(key !== "source");
+    }
+  };
+
+  const pct = (n: number, total: number) => (total ? (n / total) * 100 : 0);
+  const fmt = (v: number | null, digits = 2) =>
+    v === null ? "—" : v.toFixed(digits);
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/10 p-6 md:p-8">
+      <h2 className="text-white mb-6 flex items-center gap-3">
+        <svg
+          className="w-6 h-6 text-blue-400"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10"
+          />
+        </svg>
+        Sources
+      </h2>
+
+      {error ? (
+        <div className="text-sm rounded-lg px-3 py-2 border text-rose-300 bg-rose-900/30 border-rose-600/30">
+          {error}
+        </div>
+      ) : (
+        <div className={`overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-white/10">
+                {COLUMNS.map((c) => (
+                  <th key={c.key} className="py-3 pr-4 font-normal">
+                    <button
+                      onClick={() => handleSort(c.key)}
+                      className={`flex items-center gap-1 transition ${
+                        sortKey === c.key
+                          ? "text-white"
+                          : "text-slate-400 hover:text-white"
+                      }`}
+                      title={
+                        c.key === "negativeShare"
+                          ? "Sort by share of negative records"
+                          : undefined
+                      }
+                    >
+                      {c.label}
+                      {sortKey === c.key && <span>{desc ? "↓" : "↑"}</span>}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-3 font-normal text-slate-400">
+                  Top Keywords
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((s) => (
+                <tr
+                  key={s.source}
+                  className="border-b border-white/5 hover:bg-slate-700/20 transition"
+                >
+                  <td className="py-3 pr-4 text-white max-w-[14rem] truncate">
+                    {s.source}
+                  </td>
+                  <td className="py-3 pr-4 text-slate-200">{s.total}</td>
+                  <td className="py-3 pr-4 min-w-[10rem]">
+                    <div
+                      className="flex h-2.5 rounded-full overflow-hidden bg-slate-700/50"
+                      title={`${s.positive} positive · ${s.neutral} neutral · ${s.negative} negative`}
+                    >
+                      <div
+                        className="bg-emerald-500"
+                        style={{ width: `${pct(s.positive, s.total)}%` }}
+                      />
+                      <div
+                        className="bg-slate-500"
+                        style={{ width: `${pct(s.neutral, s.total)}%` }}
+                      />
+                      <div
+                        className="bg-rose-500"
+                        style={{ width: `${pct(s.negative, s.total)}%` }}
+                      />
+                    </div>
+                    <div className="text-slate-500 text-xs mt-1">
+                      {pct(s.negative, s.total).toFixed(0)}% negative
+                    </div>
+                  </td>
+                  <td
+                    className={`py-3 pr-4 ${
+                      s.avgScore === null
+                        ? "text-slate-500"
+                        : s.avgScore < 0
+                        ? "text-rose-300"
+                        : "text-emerald-300"
+                    }`}
+                  >
+                    {fmt(s.avgScore)}
+                  </td>
+                  <td className="py-3 pr-4 text-slate-200">
+                    {s.avgConfidence === null
+                      ? "—"
+                      : `${(s.avgConfidence * 100).toFixed(0)}%`}
+                  </td>
+                  <td className="py-3 pr-4 text-slate-200">
+                    {fmt(s.avgRating, 1)}
+                    {s.rated > 0 && (
+                      <span className="text-slate-500 text-xs ml-1">
+                        ({s.rated})
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex flex-wrap gap-1.5">
+                      {s.topKeywords.map((k) => (
+                        <span
+                          key={k}
+                          className="px-2 py-0.5 bg-slate-700/50 text-slate-300 rounded-md border border-white/10 text-xs"
+                        >
+                          {k}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {sorted.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={COLUMNS.length + 1}
+                    className="py-6 text-center text-slate-500"
+                  >
+                    No sources yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import type { SourceOption } from "../data/records";
+
+interface SourceFilterProps {
+  options: SourceOption[];
+  selected: string[];
+  onChange: (sources: string[]) => void;
+}
+
+export function SourceFilter({ options, selected, onChange }: SourceFilterProps) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  /* close on outside click / Escape */
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("pointerdown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  const toggle = (source: string) =>
+    onChange(
+      selected.includes(source)
+        ? selected.filter((s) => s !== source)
+        : [...selected, source]
+    );
+
+  const label =
+    selected.length === 0
+      ? "All Sources"
+      : selected.length === 1
+      ? selected[0]
+      : `${selected.length} sources`;
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        className="px-5 py-2.5 border border-white/10 rounded-xl bg-slate-700/50 text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 backdrop-blur-xl transition-all flex items-center gap-2 max-w-[16rem]"
+      >
+        <span className="truncate">{label}</span>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform ${
+            open ? "rotate-180" : ""
+          }`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div
+          role="listbox"
+          aria-multiselectable
+          className="absolute z-20 mt-2 w-72 max-h-80 overflow-auto bg-slate-800/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl p-2"
+        >
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([])}
+              className="w-full text-left px-3 py-2 text-sm text-slate-400 hover:text-white transition"
+            >
+              Clear selection
+            </button>
+          )}
+          {options.length === 0 && (
+            <div className="px-3 py-2 text-sm text-slate-500">No sources</div>
+          )}
+          {options.map((o) => (
+            <label
+              key={o.source}
+              className="flex items-center gap-3 px-3 py-2 rounded-lg text-slate-200 hover:bg-slate-700/50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(o.source)}
+                onChange={() => toggle(o.source)}
+                className="accent-blue-500"
+              />
+              <span className="flex-1 truncate">{o.source}</span>
+              <span className="text-slate-500 text-sm">{o.count}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,36 +1,51 @@
-import type { AnalyzedRecord } from "../data/types";
+import { SentimentTrend } from "./SentimentTrend";
+import { SourceBreakdown } from "./SourceBreakdown";
+import type { HealthStats, SourceStats, TrendPoint } from "../data/records";
+import type { TrendWindow } from "../data/trend";
 
 interface SystemHealthProps {
-  records: AnalyzedRecord[];
+  /** Totals over every record from the server; null until loaded */
+  stats: HealthStats | null;
+  /** Zero-filled trend buckets from the server (all records, not just loaded) */
+  trendPoints: TrendPoint[];
+  trendRange: TrendWindow;
+  onTrendRangeChange: (w: TrendWindow) => void;
+  trendLoading: boolean;
+  trendError: string | null;
+  sourceStats: SourceStats[];
+  sourceStatsLoading: boolean;
+  sourceStatsError: string | null;
 }
 
-export function SystemHealth({ records }: SystemHealthProps) {
-  // Calculate statistics
-  const totalRecords = records.length;
-  const analyzedRecords = records.filter((r) => r.analysis).length;
-  const avgConfidence =
-    records.reduce((sum, r) => sum + r.analysis.confidence, 0) / records.length;
+export function SystemHealth({
+  stats,
+  trendPoints,
+  trendRange,
+  onTrendRangeChange,
+  trendLoading,
+  trendError,
+  sourceStats,
+  sourceStatsLoading,
+  sourceStatsError
+}: SystemHealthProps) {
+  // Statistics (server-side, over all records)
+  const totalRecords = stats?.total ?? 0;
+  const analyzedRecords = stats?.analyzed ?? 0;
+  const avgConfidence = stats?.avgConfidence ?? 0;
 
   const sentimentBreakdown = {
-    positive: records.filter((r) => r.analysis.sentiment === "positive").length,
-    neutral: records.filter((r) => r.analysis.sentiment === "neutral").length,
-    negative: records.filter((r) => r.analysis.sentiment === "negative").length
+    positive: stats?.positive ?? 0,
+    neutral: stats?.neutral ?? 0,
+    negative: stats?.negative ?? 0
   };
 
-  const ratedRecords = records.filter((r) => r.userRating);
-  const avgUserRating =
-    ratedRecords.length > 0
-      ? ratedRecords.reduce((sum, r) => sum + (r.userRating || 0), 0) /
-        ratedRecords.length
-      : 0;
+  const ratedCount = stats?.rated ?? 0;
+  const avgUserRating = stats?.avgRating ?? 0;
 
   // Get last analysis timestamp
-  const lastAnalysis =
-    records.length > 0
-      ? new Date(
-          Math.max(...records.map((r) => new Date(r.created_at).getTime()))
-        )
-      : null;
+  const lastAnalysis = stats?.latestCreatedAt
+    ? new Date(stats.latestCreatedAt)
+    : null;
 
   const formatTimestamp = (date: Date) => {
     return new Intl.DateTimeFormat("en-US", {
@@ -224,7 +239,7 @@ export function SystemHealth({ records }: SystemHealthProps) {
           <div className="text-white mb-2">
             {avgUserRating.toFixed(1)} / 5.0
           </div>
-          <div className="text-slate-500">{ratedRecords.length} ratings</div>
+          <div className="text-slate-500">{ratedCount} ratings</div>
         </div>
       </div>
 
@@ -310,6 +325,22 @@ export function SystemHealth({ records }: SystemHealthProps) {
         </div>
       </div>
 
+      {/* Sentiment over time */}
+      <SentimentTrend
+        points={trendPoints}
+        range={trendRange}
+        onRangeChange={onTrendRangeChange}
+        loading={trendLoading}
+        error={trendError}
+      />
+
+      {/* Per-source breakdown */}
+      <SourceBreakdown
+        stats={sourceStats}
+        loading={sourceStatsLoading}
+        error={sourceStatsError}
+      />
+
       {/* API Health Monitoring */}
       <div className="bg-slate-800/50 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/10 p-6 md:p-8">
         <h2 className="text-white mb-6 flex items-center gap-3">
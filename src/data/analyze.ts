@@ -0,0 +1,69 @@
+// src/data/analyze.ts
+import { analysisFilter } from "./records";
+import type { ReanalyzeTarget } from "./records";
+import type { RecordQuery } from "./query";
+
+/* ---- Env (Vite) ---- */
+const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+/** Optional: put this in .env for easy swapping between envs
+ * VITE_ANALYZE_FUNC_URL=https://ronuqzvkaljzfwhpoqrk.functions.supabase.co/analyze-records
+ */
+export const ANALYZE_FUNC_URL =
+  (import.meta.env.VITE_ANALYZE_FUNC_URL as string) ??
+  "https://ronuqzvkaljzfwhpoqrk.functions.supabase.co/analyze-records";
+
+/* Shape we *might* get back from your Edge Function */
+export type AnalyzeResponse = Partial<{
+  analyzedCount: number;
+  count: number;
+  processed: number;
+  total: number;
+  message: string;
+  perMinute: number;
+  stoppedOnBudget: boolean;
+  requeued: number;
+  // include any other fields you return
+}>;
+
+/** POST to analyze-records with the anon key (verify_jwt); throws on a non-2xx */
+export async function postAnalyze<T = AnalyzeResponse>(
+  body: Record<string, unknown> = {}
+): Promise<T> {
+  const res = await fetch(ANALYZE_FUNC_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: SB_ANON,
+      Authorization: `Bearer ${SB_ANON}`
+    },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`HTTP ${res.status} – ${text || "Request failed"}`);
+  }
+  // the function might return no body, that's fine
+  return (await res.json().catch(() => ({}))) as T;
+}
+
+/** How many records matching the query a re-analysis would requeue (nothing changes) */
+export async function previewReanalyze(query: RecordQuery): Promise<number> {
+  const json = await postAnalyze<{ matching?: number }>({
+    filter: analysisFilter(query),
+    preview: true
+  });
+  return json.matching ?? 0;
+}
+
+/**
+ * The outdated ones among the ids, or among the query's matches. (`force`,
+ * which redoes up-to-date analyses too, needs more than the anon key.)
+ */
+export function reanalyze(target: ReanalyzeTarget): Promise<AnalyzeResponse> {
+  return postAnalyze(
+    "ids" in target
+      ? { ids: target.ids }
+      : { filter: analysisFilter(target.query) }
+  );
+}
@@ -0,0 +1,70 @@
+// src/data/diff.test.ts
+import { describe, expect, it } from "vitest";
+import { diffKeywords, diffWords } from "./diff";
+
+const rebuild = (parts: { op: string; text: string }[], skip: string) =>
+  parts
+    .filter((p) => p.op !== skip)
+    .map((p) => p.text)
+    .join("");
+
+describe("diffWords", () => {
+  it("marks a changed word as a deletion and an addition", () => {
+    expect(
+      diffWords("Stocks rose sharply today", "Stocks fell sharply today")
+    ).toEqual([
+      { op: "same", text: "Stocks " },
+      { op: "del", text: "rose " },
+      { op: "add", text: "fell " },
+      { op: "same", text: "sharply today" }
+    ]);
+  });
+
+  it("merges consecutive parts with the same op", () => {
+    // a kept word takes its spacing from the new text
+    expect(diffWords("a b", "a b c d e")).toEqual([
+      { op: "same", text: "a b " },
+      { op: "add", text: "c d e" }
+    ]);
+  });
+
+  it("ignores case and spacing", () => {
+    expect(diffWords("Rate  cut", "rate cut")).toEqual([
+      { op: "same", text: "rate cut" }
+    ]);
+  });
+
+  it("rebuilds both texts from its parts", () => {
+    const before = "The central bank held rates, citing inflation.";
+    const after = "The bank cut rates again, citing weaker growth.";
+    const parts = diffWords(before, after);
+    expect(rebuild(parts, "add")).toBe(before);
+    expect(rebuild(parts, "del")).toBe(after);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffWords("", "")).toEqual([]);
+    expect(diffWords("", "new text")).toEqual([
+      { op: "add", text: "new text" }
+    ]);
+    expect(diffWords("old text", "")).toEqual([
+      { op: "del", text: "old text" }
+    ]);
+  });
+});
+
+describe("diffKeywords", () => {
+  it("lists gained and dropped keywords, ignoring case", () => {
+    expect(
+      diffKeywords(["Fed", "rates", "inflation"], ["fed", "growth", "rates"])
+    ).toEqual({
+      added: ["growth"],
+      removed: ["inflation"]
+    });
+  });
+
+  it("keeps the spelling of the side a keyword comes from", () => {
+    expect(diffKeywords([], ["AI"])).toEqual({ added: ["AI"], removed: [] });
+    expect(diffKeywords(["AI"], [])).toEqual({ added: [], removed: ["AI"] });
+  });
+});
@@ -0,0 +1,70 @@
+// src/data/diff.ts
+
+export type DiffPart = { op: "same" | "add" | "del"; text: string };
+
+/** Words and the whitespace after them, so joined parts rebuild the text */
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+const norm = (token: string) => token.trim().toLowerCase();
+
+/**
+ * Word-level diff from `before` to `after` (longest common subsequence;
+ * summaries are short enough for the O(n·m) table). Case and spacing don't
+ * count as changes; consecutive parts with the same op are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j]: common words of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        norm(a[i]) === norm(b[j])
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffPart["op"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.op === op) last.text += text;
+    else parts.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (norm(a[i]) === norm(b[j])) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("del", a[i++]);
+    } else {
+      push("add", b[j++]);
+    }
+  }
+  while (i < a.length) push("del", a[i++]);
+  while (j < b.length) push("add", b[j++]);
+  return parts;
+}
+
+/** Keywords gained and dropped between two analyses (case-insensitive) */
+export function diffKeywords(
+  before: string[],
+  after: string[]
+): { added: string[]; removed: string[] } {
+  const had = new Set(before.map((k) => k.toLowerCase()));
+  const has = new Set(after.map((k) => k.toLowerCase()));
+  return {
+    added: after.filter((k) => !had.has(k.toLowerCase())),
+    removed: before.filter((k) => !has.has(k.toLowerCase()))
+  };
+}
@@ -0,0 +1,83 @@
+// src/data/export.test.ts
+import { describe, expect, it } from "vitest";
+import { csvCell, toExportRow } from "./export";
+import type { AnalyzedRecord } from "./types";
+
+const record = (patch: Partial<AnalyzedRecord> = {}): AnalyzedRecord => ({
+  id: "r1",
+  source: "news",
+  url: "https://example.com/a",
+  content: "Stocks rallied.",
+  created_at: "2026-10-14T12:00:00Z",
+  publishedAt: null,
+  analyzedAt: "2026-10-14T12:05:00Z",
+  analysisStatus: "done",
+  analysis: {
+    summary: "Stocks up",
+    keywords: ["stocks", "rally"],
+    sentiment: "positive",
+    confidence: 0.87654321
+  },
+  ...patch
+});
+
+describe("csvCell", () => {
+  it("quotes separators, quotes and line breaks", () => {
+    expect(csvCell("plain")).toBe("plain");
+    expect(csvCell('a "b", c')).toBe('"a ""b"", c"');
+    expect(csvCell("two\nlines")).toBe('"two\nlines"');
+    expect(csvCell(null)).toBe("");
+    expect(csvCell(0.5)).toBe("0.5");
+  });
+
+  it("neutralizes text that a spreadsheet would run as a formula", () => {
+    expect(csvCell("=1+1")).toBe("'=1+1");
+    expect(csvCell('=HYPERLINK("http://x")')).toBe(
+      `"'=HYPERLINK(""http://x"")"`
+    );
+    expect(csvCell("+1")).toBe("'+1");
+    expect(csvCell("-2+3")).toBe("'-2+3");
+    expect(csvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvCell("\tcmd")).toBe("'\tcmd");
+    expect(csvCell("\rcmd")).toBe("\"'\rcmd\"");
+    expect(csvCell("a=b")).toBe("a=b");
+  });
+
+  it("leaves numbers alone", () => {
+    expect(csvCell(-1)).toBe("-1");
+  });
+});
+
+describe("toExportRow", () => {
+  it("exports the analysis of an analyzed record", () => {
+    expect(toExportRow(record())).toMatchObject({
+      analysis_status: "done",
+      summary: "Stocks up",
+      keywords: ["stocks", "rally"],
+      sentiment: "positive",
+      confidence: 0.8765
+    });
+  });
+
+  it("exports no analysis for a record that has none", () => {
+    const row = toExportRow(
+      record({
+        analyzedAt: null,
+        analysisStatus: "failed",
+        analysis: {
+          summary: "",
+          keywords: [],
+          sentiment: "neutral",
+          confidence: 0.5
+        }
+      })
+    );
+    expect(row).toMatchObject({
+      analysis_status: "failed",
+      summary: null,
+      keywords: null,
+      sentiment: null,
+      confidence: null
+    });
+  });
+});
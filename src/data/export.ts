@@ -0,0 +1,313 @@
+// src/data/export.ts
+import { Zip, ZipDeflate, strToU8 } from "fflate";
+import { fetchRecords } from "./records";
+import type { RecordCursor } from "./records";
+import type { RecordQuery } from "./query";
+import type { AnalyzedRecord } from "./types";
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportProgress = { written: number; total: number | null };
+
+/* PostgREST caps a response at `max_rows` (supabase/config.toml) */
+const EXPORT_PAGE_SIZE = 1000;
+
+const MIME: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+};
+
+/* ---- Flat row: same columns in every format ---- */
+const COLUMNS = [
+  "id",
+  "source",
+  "url",
+  "created_at",
+  "published_at",
+  "content",
+  "analysis_status",
+  "summary",
+  "keywords",
+  "sentiment",
+  "confidence",
+  "user_rating"
+] as const;
+type Cell = string | number | null;
+type ExportRow = Record<Exclude<(typeof COLUMNS)[number], "keywords">, Cell> & {
+  keywords: string[] | null;
+};
+
+export function toExportRow(r: AnalyzedRecord): ExportRow {
+  // toAnalyzedRecord fills neutral/0.5 placeholders for rows with no analysis
+  const analyzed = Boolean(r.analyzedAt);
+  return {
+    id: r.id,
+    source: r.source,
+    url: r.url ?? null,
+    created_at: r.created_at,
+    published_at: r.publishedAt ?? null,
+    content: r.content,
+    analysis_status: r.analysisStatus ?? null,
+    summary: analyzed ? r.analysis.summary : null,
+    keywords: analyzed ? r.analysis.keywords : null,
+    sentiment: analyzed ? r.analysis.sentiment : null,
+    confidence: analyzed ? Number(r.analysis.confidence.toFixed(4)) : null,
+    user_rating: r.userRating ?? null
+  };
+}
+
+/* ---- Pages of the current view, in view order ---- */
+async function* iterateRecords(
+  query: RecordQuery,
+  onTotal: (total: number | null) => void
+): AsyncGenerator<AnalyzedRecord[]> {
+  let cursor: RecordCursor | null = null;
+  do {
+    const page = await fetchRecords(query, cursor, EXPORT_PAGE_SIZE);
+    if (!cursor) onTotal(page.total);
+    yield page.records;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+/* ---- Where the bytes go: straight to disk when the browser allows it ---- */
+type Sink = {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  /** the export failed: discard what was written */
+  abort: () => Promise<void>;
+};
+
+type SaveFilePicker = (opts: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+async function openSink(filename: string, format: ExportFormat): Promise<Sink> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker })
+    .showSaveFilePicker;
+
+  if (picker) {
+    // Chromium: stream to the chosen file, nothing is held in memory
+    const handle = await picker({
+      suggestedName: filename,
+      types: [
+        {
+          description: format.toUpperCase(),
+          accept: { [MIME[format]]: [`.${format}`] }
+        }
+      ]
+    });
+    const stream = await handle.createWritable();
+    return {
+      write: (chunk) => stream.write(chunk as Uint8Array<ArrayBuffer>),
+      close: () => stream.close(),
+      // leaves the file as it was instead of a truncated export
+      abort: () => stream.abort()
+    };
+  }
+
+  // Elsewhere: keep encoded chunks (not records) and hand over one Blob
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(chunk as Uint8Array<ArrayBuffer>);
+    },
+    close: async () => {
+      const blob = new Blob(parts, { type: MIME[format] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+    abort: async () => {
+      parts.length = 0;
+    }
+  };
+}
+
+/* ---- CSV ---- */
+/** Scraped text starting like this would run as a formula in Excel/Sheets */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export function csvCell(v: Cell): string {
+  if (v === null) return "";
+  const s = typeof v === "string" && FORMULA_START.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvLine(values: Cell[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+/* ---- XLSX (SpreadsheetML with inline strings, zipped as we go) ---- */
+/** Control chars XML 1.0 doesn't allow: U+0000–U+0008, U+000B, U+000C, U+000E–U+001F */
+const XML_INVALID_RANGES: [number, number][] = [
+  [0x00, 0x08],
+  [0x0b, 0x0c],
+  [0x0e, 0x1f]
+];
+const uEscape = (code: number) => `\\u${code.toString(16).padStart(4, "0")}`;
+const XML_INVALID = new RegExp(
+  `[${XML_INVALID_RANGES.map(([lo, hi]) => `${uEscape(lo)}-${uEscape(hi)}`).join("")}]`,
+  "g"
+);
+
+function xmlEscape(s: string): string {
+  return (
+    s
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(XML_INVALID, "")
+  );
+}
+
+function xlsxRow(values: Cell[]): string {
+  const cells = values
+    .map((v) =>
+      v === null
+        ? "<c/>"
+        : typeof v === "number"
+        ? `<c><v>${v}</v></c>`
+        : // Excel rejects cells over 32,767 characters
+          `<c t="inlineStr"><is><t xml:space="preserve">${xmlEscape(
+            v.slice(0, 32767)
+          )}</t></is></c>`
+    )
+    .join("");
+  return `<row>${cells}</row>`;
+}
+
+const XLSX_STATIC: Record<string, string> = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Records" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    "</Relationships>"
+};
+
+/** Turns rows into file bytes for one format */
+type Encoder = {
+  header: () => void;
+  rows: (rows: ExportRow[]) => void;
+  finish: () => void;
+};
+
+function makeEncoder(
+  format: ExportFormat,
+  emit: (chunk: Uint8Array) => void
+): Encoder {
+  // tabular formats get one keyword cell; NDJSON keeps the array
+  const values = (row: ExportRow): Cell[] =>
+    COLUMNS.map((c) =>
+      c === "keywords" ? (row.keywords?.join("; ") ?? null) : row[c]
+    );
+
+  if (format === "csv") {
+    return {
+      // BOM so Excel opens UTF-8 CSV correctly
+      header: () => emit(strToU8("\ufeff" + csvLine([...COLUMNS]))),
+      rows: (rows) =>
+        emit(strToU8(rows.map((r) => csvLine(values(r))).join(""))),
+      finish: () => {}
+    };
+  }
+
+  if (format === "ndjson") {
+    return {
+      header: () => {},
+      rows: (rows) =>
+        emit(strToU8(rows.map((r) => JSON.stringify(r) + "\n").join(""))),
+      finish: () => {}
+    };
+  }
+
+  const zip = new Zip((err, chunk) => {
+    if (err) throw err;
+    emit(chunk);
+  });
+  const sheet = new ZipDeflate("xl/worksheets/sheet1.xml", { level: 6 });
+  return {
+    header: () => {
+      for (const [name, xml] of Object.entries(XLSX_STATIC)) {
+        const part = new ZipDeflate(name, { level: 6 });
+        zip.add(part);
+        part.push(strToU8(xml), true);
+      }
+      zip.add(sheet);
+      sheet.push(
+        strToU8(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+            xlsxRow([...COLUMNS])
+        )
+      );
+    },
+    rows: (rows) =>
+      sheet.push(strToU8(rows.map((r) => xlsxRow(values(r))).join(""))),
+    finish: () => {
+      sheet.push(strToU8("</sheetData></worksheet>"), true);
+      zip.end();
+    }
+  };
+}
+
+/* ---- Export exactly what the list shows (filters + sort), page by page ---- */
+export async function exportRecords(
+  query: RecordQuery,
+  format: ExportFormat,
+  onProgress?: (p: ExportProgress) => void
+): Promise<void> {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  const sink = await openSink(`records-${stamp}.${format}`, format);
+
+  // encoders emit synchronously; sink writes are chained to keep order
+  let pending = Promise.resolve();
+  const encoder = makeEncoder(format, (chunk) => {
+    pending = pending.then(() => sink.write(chunk));
+  });
+
+  let total: number | null = null;
+  let written = 0;
+  try {
+    encoder.header();
+    for await (const records of iterateRecords(query, (t) => (total = t))) {
+      encoder.rows(records.map(toExportRow));
+      written += records.length;
+      // apply backpressure: don't fetch the next page before this one is on disk
+      await pending;
+      onProgress?.({ written, total });
+    }
+    encoder.finish();
+    await pending;
+  } catch (e) {
+    // the original error matters more than a failed cleanup
+    await sink.abort().catch(() => {});
+    throw e;
+  }
+  await sink.close();
+}
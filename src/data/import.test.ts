@@ -0,0 +1,101 @@
+// src/data/import.test.ts
+import { describe, expect, it } from "vitest";
+import { TEXT_COLUMN, applyMapping, guessMapping, parseImport } from "./import";
+
+describe("parseImport", () => {
+  it("parses CSV with quoted commas, newlines and escaped quotes", () => {
+    const csv =
+      'title,url\r\n"Hello, world",https://a.test\n"two\nlines ""quoted""",\n\n';
+    expect(parseImport(csv, "csv")).toEqual({
+      format: "csv",
+      columns: ["title", "url"],
+      items: [
+        { title: "Hello, world", url: "https://a.test" },
+        { title: 'two\nlines "quoted"', url: "" }
+      ]
+    });
+  });
+
+  it("names blank CSV headers and fills missing cells", () => {
+    const parsed = parseImport("a,\n1\n", "csv");
+    expect(parsed.columns).toEqual(["a", "column 2"]);
+    expect(parsed.items).toEqual([{ a: "1", "column 2": "" }]);
+  });
+
+  it("reads a JSON array and a wrapped { items } list", () => {
+    const expected = [{ content: "x", meta: '{"n":1}', n: "2" }];
+    const arr = parseImport('[{"content":"x","meta":{"n":1},"n":2}]', "json");
+    expect(arr.items).toEqual(expected);
+    expect(arr.columns).toEqual(["content", "meta", "n"]);
+    const wrapped = parseImport(
+      '{"items":[{"content":"x","meta":{"n":1},"n":2}]}',
+      "json"
+    );
+    expect(wrapped.items).toEqual(expected);
+  });
+
+  it("reads NDJSON and collects columns across lines", () => {
+    const parsed = parseImport('{"a":1}\n\n{"b":null}\n"plain"\n', "json");
+    expect(parsed.columns).toEqual(["a", "b", TEXT_COLUMN]);
+    expect(parsed.items).toEqual([{ a: "1" }, { b: "" }, { [TEXT_COLUMN]: "plain" }]);
+  });
+
+  it("reports the NDJSON line that is not JSON", () => {
+    expect(() => parseImport('{"a":1}\n{oops}', "json")).toThrow(
+      "Invalid JSON on line 2"
+    );
+  });
+
+  it("splits plain text into paragraphs", () => {
+    expect(parseImport("one\nstill one\n\n  \n two ", "text").items).toEqual([
+      { [TEXT_COLUMN]: "one\nstill one" },
+      { [TEXT_COLUMN]: "two" }
+    ]);
+  });
+
+  it("detects the format from the file name, then the content", () => {
+    expect(parseImport("a,b\n1,2", "auto", "notes.txt").format).toBe("text");
+    expect(parseImport("{}", "auto", "rows.jsonl").format).toBe("json");
+    expect(parseImport('  [{"a":1}]').format).toBe("json");
+    expect(parseImport("a,b\n1,2\n3,4").format).toBe("csv");
+    expect(parseImport("Just a sentence, with a comma.").format).toBe("text");
+  });
+});
+
+describe("guessMapping", () => {
+  it("maps columns by name, case- and space-insensitively", () => {
+    expect(guessMapping(["ID", " Body ", "Link", "Platform", "publishedAt"]))
+      .toEqual({
+        content: " Body ",
+        source: "Platform",
+        url: "Link",
+        created_at: "publishedAt"
+      });
+  });
+
+  it("falls back to the first column for content", () => {
+    expect(guessMapping(["foo", "bar"])).toEqual({
+      content: "foo",
+      source: "",
+      url: "",
+      created_at: ""
+    });
+    expect(guessMapping([]).content).toBe("");
+  });
+});
+
+describe("applyMapping", () => {
+  it("keeps mapped, non-blank cells only", () => {
+    const rows = applyMapping(
+      [
+        { text: "hello", site: "  ", link: "https://a.test" },
+        { text: "", site: "news" }
+      ],
+      { content: "text", source: "site", url: "link", created_at: "" }
+    );
+    expect(rows).toEqual([
+      { content: "hello", url: "https://a.test" },
+      { source: "news" }
+    ]);
+  });
+});
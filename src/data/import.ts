@@ -0,0 +1,312 @@
+// src/data/import.ts
+
+/* ---- Env (Vite) ---- */
+const SB_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+/** Optional override, like VITE_ANALYZE_FUNC_URL */
+const IMPORT_FUNC_URL =
+  (import.meta.env.VITE_IMPORT_FUNC_URL as string | undefined) ??
+  `${SB_URL}/functions/v1/import-records`;
+
+/** Must not exceed MAX_ROWS in the import-records function */
+export const IMPORT_CHUNK_SIZE = 500;
+export const PREVIEW_ROWS = 20;
+
+export type ImportFormat = "auto" | "csv" | "json" | "text";
+
+/** A parsed file: column names plus one string map per item */
+export type ParsedImport = {
+  format: Exclude<ImportFormat, "auto">;
+  columns: string[];
+  items: Record<string, string>[];
+};
+
+/** Record field -> column of the parsed file ("" = not mapped) */
+export type ImportMapping = {
+  content: string;
+  source: string;
+  url: string;
+  created_at: string;
+};
+
+export const IMPORT_FIELDS: (keyof ImportMapping)[] = [
+  "content",
+  "source",
+  "url",
+  "created_at"
+];
+
+/** Plain text has no columns; every block lands here */
+export const TEXT_COLUMN = "text";
+
+/* ---- Parsing ---- */
+
+/** RFC 4180: quoted fields may hold commas, newlines and "" escapes */
+function parseCsvRows(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // drop blank lines
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function parseCsv(input: string): ParsedImport {
+  const [header = [], ...body] = parseCsvRows(input);
+  const columns = header.map((h, i) => h.trim() || `column ${i + 1}`);
+  const items = body.map((r) =>
+    Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ""]))
+  );
+  return { format: "csv", columns, items };
+}
+
+const cell = (v: unknown): string =>
+  v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+
+/** A JSON array (or { items | data | records: [...] }) or NDJSON, one object per line */
+function parseJson(input: string): ParsedImport {
+  const trimmed = input.trim();
+  let values: unknown[];
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      values = parsed;
+    } else if (parsed && typeof parsed === "object") {
+      const o = parsed as Record<string, unknown>;
+      const list = [o.items, o.data, o.records].find(Array.isArray);
+      values = list ?? [parsed];
+    } else {
+      throw new Error("not an object");
+    }
+  } catch {
+    values = trimmed
+      .split(/\r?\n/)
+      .filter((l) => l.trim())
+      .map((l, i) => {
+        try {
+          return JSON.parse(l) as unknown;
+        } catch {
+          throw new Error(`Invalid JSON on line ${i + 1}`);
+        }
+      });
+  }
+
+  const columns: string[] = [];
+  const items = values.map((v) => {
+    const o: Record<string, unknown> =
+      v && typeof v === "object" && !Array.isArray(v)
+        ? (v as Record<string, unknown>)
+        : { [TEXT_COLUMN]: v };
+    for (const k of Object.keys(o)) if (!columns.includes(k)) columns.push(k);
+    return Object.fromEntries(Object.entries(o).map(([k, x]) => [k, cell(x)]));
+  });
+  return { format: "json", columns, items };
+}
+
+/** One record per paragraph (blank-line separated) */
+function parseText(input: string): ParsedImport {
+  const items = input
+    .split(/\r?\n\s*\r?\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => ({ [TEXT_COLUMN]: p }));
+  return { format: "text", columns: [TEXT_COLUMN], items };
+}
+
+function detectFormat(input: string, fileName?: string): Exclude<ImportFormat, "auto"> {
+  const ext = fileName?.split(".").pop()?.toLowerCase();
+  if (ext === "csv") return "csv";
+  if (ext === "json" || ext === "ndjson" || ext === "jsonl") return "json";
+  if (ext === "txt" || ext === "md") return "text";
+
+  const head = input.trimStart();
+  if (head.startsWith("[") || head.startsWith("{")) return "json";
+  // a header line with separators and a consistent column count looks like CSV
+  const lines = parseCsvRows(input.slice(0, 4000)).slice(0, 5);
+  if (lines.length > 1 && lines[0].length > 1 && lines.every((l) => l.length === lines[0].length)) {
+    return "csv";
+  }
+  return "text";
+}
+
+export function parseImport(
+  input: string,
+  format: ImportFormat = "auto",
+  fileName?: string
+): ParsedImport {
+  const f = format === "auto" ? detectFormat(input, fileName) : format;
+  if (f === "csv") return parseCsv(input);
+  if (f === "json") return parseJson(input);
+  return parseText(input);
+}
+
+/* ---- Column mapping ---- */
+
+const COLUMN_HINTS: Record<keyof ImportMapping, RegExp> = {
+  content: /^(content|text|body|description|message|review|comment|title)$/i,
+  source: /^(source|site|platform|channel|origin)$/i,
+  url: /^(url|link|href|permalink)$/i,
+  created_at: /^(created_?at|date|time|timestamp|published(_?at|_?time)?)$/i
+};
+
+/** Best guess by column name; content falls back to the only/first column */
+export function guessMapping(columns: string[]): ImportMapping {
+  const pick = (field: keyof ImportMapping) =>
+    columns.find((c) => COLUMN_HINTS[field].test(c.trim())) ?? "";
+  const mapping: ImportMapping = {
+    content: pick("content"),
+    source: pick("source"),
+    url: pick("url"),
+    created_at: pick("created_at")
+  };
+  if (!mapping.content && columns.length) mapping.content = columns[0];
+  return mapping;
+}
+
+export type ImportRow = Partial<Record<keyof ImportMapping, string>>;
+
+export function applyMapping(
+  items: Record<string, string>[],
+  mapping: ImportMapping
+): ImportRow[] {
+  return items.map((item) => {
+    const row: ImportRow = {};
+    for (const field of IMPORT_FIELDS) {
+      const col = mapping[field];
+      if (col && item[col]?.trim()) row[field] = item[col];
+    }
+    return row;
+  });
+}
+
+/* ---- import-records ---- */
+
+export type ImportIssue = { index: number; error?: string; warnings?: string[] };
+
+export type DedupDecision = { action: "new" | "skip" | "link"; duplicateOf?: string };
+
+export type ImportPreview = {
+  received: number;
+  valid: number;
+  issues: ImportIssue[];
+  rows: {
+    source: string;
+    url: string | null;
+    content: string;
+    created_at: string | null;
+    dedup: DedupDecision;
+  }[];
+};
+
+export type ImportResult = {
+  fetchedCount: number;
+  normalizedCount: number;
+  insertedCount: number;
+  skippedDuplicates: number;
+  linkedDuplicates: number;
+  issues: ImportIssue[];
+  /** A chunk failed: rows before `atRow` are saved, the rest were not sent */
+  failure?: { error: string; atRow: number };
+};
+
+async function postImport<T>(body: Record<string, unknown>): Promise<T> {
+  const res = await fetch(IMPORT_FUNC_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: SB_ANON,
+      Authorization: `Bearer ${SB_ANON}`
+    },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`HTTP ${res.status} – ${text || "Request failed"}`);
+  }
+  return (await res.json()) as T;
+}
+
+/** Validation + dedup decisions for the first rows, nothing is written */
+export function previewImport(rows: ImportRow[], source: string): Promise<ImportPreview> {
+  return postImport<ImportPreview>({
+    rows: rows.slice(0, PREVIEW_ROWS),
+    source: source || undefined,
+    dryRun: true
+  });
+}
+
+/**
+ * Sends the rows in chunks; each chunk is one job run. Issue indexes are
+ * shifted back to positions in `rows`. Chunks are committed one by one, so a
+ * failed chunk doesn't throw: the result counts what was saved before it and
+ * names the row to resume from (pass it back as `resume`).
+ */
+export async function importRecords(
+  rows: ImportRow[],
+  source: string,
+  onProgress?: (done: number, total: number) => void,
+  resume?: ImportResult
+): Promise<ImportResult> {
+  const total: ImportResult = {
+    fetchedCount: resume?.fetchedCount ?? 0,
+    normalizedCount: resume?.normalizedCount ?? 0,
+    insertedCount: resume?.insertedCount ?? 0,
+    skippedDuplicates: resume?.skippedDuplicates ?? 0,
+    linkedDuplicates: resume?.linkedDuplicates ?? 0,
+    issues: [...(resume?.issues ?? [])]
+  };
+  const start = resume?.failure?.atRow ?? 0;
+  for (let offset = start; offset < rows.length; offset += IMPORT_CHUNK_SIZE) {
+    const chunk = rows.slice(offset, offset + IMPORT_CHUNK_SIZE);
+    let r: ImportResult;
+    try {
+      r = await postImport<ImportResult>({ rows: chunk, source: source || undefined });
+    } catch (e) {
+      total.failure = {
+        error: e instanceof Error ? e.message : String(e),
+        atRow: offset
+      };
+      break;
+    }
+    total.fetchedCount += r.fetchedCount;
+    total.normalizedCount += r.normalizedCount;
+    total.insertedCount += r.insertedCount;
+    total.skippedDuplicates += r.skippedDuplicates;
+    total.linkedDuplicates += r.linkedDuplicates;
+    total.issues.push(...r.issues.map((i) => ({ ...i, index: i.index + offset })));
+    onProgress?.(Math.min(offset + chunk.length, rows.length), rows.length);
+  }
+  return total;
+}
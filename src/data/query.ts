@@ -0,0 +1,121 @@
+// src/data/query.ts
+/* ---- strict option unions ---- */
+export const SENTIMENTS = ["all", "positive", "neutral", "negative"] as const;
+export type SentimentFilter = (typeof SENTIMENTS)[number];
+
+export const SORT_OPTIONS = ["date", "rating", "confidence"] as const;
+export type SortBy = (typeof SORT_OPTIONS)[number];
+
+/** all = record has every selected keyword (AND), any = at least one (OR) */
+export const KEYWORD_MATCHES = ["all", "any"] as const;
+export type KeywordMatch = (typeof KEYWORD_MATCHES)[number];
+
+/** What the Analyzed Data tab is currently showing; sent to PostgREST as-is */
+export type RecordQuery = {
+  sentiment: SentimentFilter;
+  sortBy: SortBy;
+  /** Websearch syntax: `rate cut`, `"rate cut"`, `fed -powell`, `ai or ml` */
+  search: string;
+  keywords: string[];
+  keywordMatch: KeywordMatch;
+  /** Inclusive `YYYY-MM-DD` bounds on created_at (local time); "" = open */
+  from: string;
+  to: string;
+  sources: string[];
+};
+
+export const DEFAULT_QUERY: RecordQuery = {
+  sentiment: "all",
+  sortBy: "date",
+  search: "",
+  keywords: [],
+  keywordMatch: "all",
+  from: "",
+  to: "",
+  sources: []
+};
+
+function oneOf<T extends string>(
+  options: readonly T[],
+  v: string | null,
+  fallback: T
+): T {
+  return v !== null && (options as readonly string[]).includes(v)
+    ? (v as T)
+    : fallback;
+}
+
+/** `YYYY-MM-DD` or "" (open bound) */
+function day(v: string | null): string {
+  return v !== null && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "";
+}
+
+/* ---- URL <-> query, so a filtered view can be shared as a link ---- */
+export function readQueryFromUrl(search = window.location.search): RecordQuery {
+  const p = new URLSearchParams(search);
+  return {
+    sentiment: oneOf(SENTIMENTS, p.get("sentiment"), DEFAULT_QUERY.sentiment),
+    sortBy: oneOf(SORT_OPTIONS, p.get("sort"), DEFAULT_QUERY.sortBy),
+    search: p.get("q") ?? DEFAULT_QUERY.search,
+    keywords: p.getAll("kw").filter(Boolean),
+    keywordMatch: oneOf(KEYWORD_MATCHES, p.get("kwm"), DEFAULT_QUERY.keywordMatch),
+    from: day(p.get("from")),
+    to: day(p.get("to")),
+    sources: p.getAll("src").filter(Boolean)
+  };
+}
+
+export function writeQueryToUrl(query: RecordQuery) {
+  const url = new URL(window.location.href);
+  const set = (key: string, value: string, fallback: string) => {
+    if (value === fallback) url.searchParams.delete(key);
+    else url.searchParams.set(key, value);
+  };
+  set("sentiment", query.sentiment, DEFAULT_QUERY.sentiment);
+  set("sort", query.sortBy, DEFAULT_QUERY.sortBy);
+  set("q", query.search.trim(), DEFAULT_QUERY.search);
+  url.searchParams.delete("kw");
+  for (const k of query.keywords) url.searchParams.append("kw", k);
+  set("kwm", query.keywordMatch, DEFAULT_QUERY.keywordMatch);
+  set("from", query.from, DEFAULT_QUERY.from);
+  set("to", query.to, DEFAULT_QUERY.to);
+  url.searchParams.delete("src");
+  for (const src of query.sources) url.searchParams.append("src", src);
+  window.history.replaceState(null, "", url);
+}
+
+/** Words worth highlighting: drops `or`, negated `-terms` and punctuation */
+export function searchTerms(search: string): string[] {
+  const words = search
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && w !== "or" && !w.startsWith("-"));
+  return [...new Set(words)];
+}
+
+/** Add or remove one keyword from the facet filter */
+export function toggleKeyword(query: RecordQuery, keyword: string): RecordQuery {
+  const keywords = query.keywords.includes(keyword)
+    ? query.keywords.filter((k) => k !== keyword)
+    : [...query.keywords, keyword];
+  return { ...query, keywords };
+}
+
+/** Half-open ISO bounds for created_at: [from 00:00, day after `to` 00:00) */
+export function dateBounds(query: RecordQuery): {
+  from: string | null;
+  to: string | null;
+} {
+  const startOf = (day: string) => new Date(`${day}T00:00:00`);
+  let to: string | null = null;
+  if (query.to) {
+    const end = startOf(query.to);
+    end.setDate(end.getDate() + 1);
+    to = end.toISOString();
+  }
+  return {
+    from: query.from ? startOf(query.from).toISOString() : null,
+    to
+  };
+}
@@ -0,0 +1,47 @@
+// src/data/realtime.ts
+import { RealtimeClient } from "@supabase/realtime-js";
+import { toAnalyzedRecord } from "./records";
+import type { AnalyzedRecord, DBRecord } from "./types";
+
+/* ---- Env (Vite) ---- */
+const SB_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+type RecordChangeHandlers = {
+  onInsert: (record: AnalyzedRecord) => void;
+  onUpdate: (record: AnalyzedRecord) => void;
+};
+
+/**
+ * Live inserts/updates on `records` (needs the table in the
+ * `supabase_realtime` publication, see migrations). Returns an unsubscribe.
+ */
+export function subscribeToRecords({
+  onInsert,
+  onUpdate
+}: RecordChangeHandlers): () => void {
+  const client = new RealtimeClient(`${SB_URL}/realtime/v1`, {
+    params: { apikey: SB_ANON }
+  });
+
+  const channel = client
+    .channel("records-changes")
+    .on<DBRecord>(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "records" },
+      (payload) => onInsert(toAnalyzedRecord(payload.new))
+    )
+    .on<DBRecord>(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "records" },
+      (payload) => onUpdate(toAnalyzedRecord(payload.new))
+    )
+    .subscribe((status, err) => {
+      if (err) console.log("Realtime", status, err);
+    });
+
+  return () => {
+    client.removeChannel(channel);
+    client.disconnect();
+  };
+}
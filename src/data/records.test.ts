@@ -0,0 +1,84 @@
+// src/data/records.test.ts
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUERY, dateBounds } from "./query";
+import type { RecordQuery } from "./query";
+import { afterCursor, applyFilters } from "./records";
+
+const query = (patch: Partial<RecordQuery> = {}): RecordQuery => ({
+  ...DEFAULT_QUERY,
+  ...patch
+});
+
+const filter = (q: RecordQuery) => {
+  const url = new URL("http://localhost/rest/v1/records");
+  const conditions = applyFilters(url, q);
+  return { params: Object.fromEntries(url.searchParams), conditions };
+};
+
+describe("afterCursor", () => {
+  it("continues after the cursor's value, then ties by id, then nulls", () => {
+    expect(afterCursor("created_at", { value: "2026-10-14T12:00:00Z", id: "b" }))
+      .toBe(
+        'or(created_at.lt."2026-10-14T12:00:00Z",' +
+          'and(created_at.eq."2026-10-14T12:00:00Z",id.lt."b"),' +
+          "created_at.is.null)"
+      );
+  });
+
+  it("stays within the nulls once the cursor is past the last value", () => {
+    expect(afterCursor("rating", { value: null, id: "b" })).toBe(
+      'and(rating.is.null,id.lt."b")'
+    );
+  });
+
+  it("quotes numbers and escapes quotes in ids", () => {
+    expect(afterCursor("rating", { value: 4, id: 'a"b' })).toBe(
+      'or(rating.lt."4",and(rating.eq."4",id.lt."a\\"b"),rating.is.null)'
+    );
+  });
+});
+
+describe("applyFilters", () => {
+  it("sets nothing for the default query", () => {
+    expect(filter(query())).toEqual({ params: {}, conditions: [] });
+  });
+
+  it("maps sentiment, search, keywords and sources to URL params", () => {
+    const { params } = filter(
+      query({
+        sentiment: "negative",
+        search: "  rate cut ",
+        keywords: ["fed", 'say "no"'],
+        keywordMatch: "any",
+        sources: ["news", "x,y"]
+      })
+    );
+    expect(params).toEqual({
+      sentiment: "eq.negative",
+      fts: "wfts(english).rate cut",
+      keywords: 'ov.{"fed","say \\"no\\""}',
+      source: 'in.("news","x,y")'
+    });
+  });
+
+  it("requires every keyword when matching all", () => {
+    const { params } = filter(query({ keywords: ["fed"], keywordMatch: "all" }));
+    expect(params.keywords).toBe('cs.{"fed"}');
+  });
+
+  it("returns the date range as created_at conditions", () => {
+    const q = query({ from: "2026-10-01", to: "2026-10-14" });
+    const { from, to } = dateBounds(q);
+    expect(filter(q)).toEqual({
+      params: {},
+      conditions: [`created_at.gte."${from}"`, `created_at.lt."${to}"`]
+    });
+  });
+
+  it("leaves an open bound out", () => {
+    const q = query({ to: "2026-10-14" });
+    expect(filter(q).conditions).toEqual([
+      `created_at.lt."${dateBounds(q).to}"`
+    ]);
+  });
+});
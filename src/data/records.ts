@@ -0,0 +1,456 @@
+// src/data/records.ts
+import type { DBRecord, AnalyzedRecord, AnalysisVersion } from "./types";
+import { dateBounds } from "./query";
+import type { RecordQuery, SortBy } from "./query";
+
+/* ---- Env (Vite) ---- */
+const SB_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+export const PAGE_SIZE = 50;
+
+const SELECT =
+  "id,source,url,content,created_at,inserted_at,published_at,effective_date,summary,keywords,sentiment,sentiment_score,analyzed_at,analysis_status,attempts,last_error,next_attempt_at,analysis_model,analysis_prompt_version,current_analysis_id,user_rating,duplicate_of,original:duplicate_of(source,url)";
+
+/** Column behind each sort option; every order is `<col>.desc.nullslast,id.desc` */
+const SORT_COLUMNS = {
+  date: "effective_date",
+  rating: "user_rating",
+  confidence: "sentiment_score"
+} as const satisfies Record<SortBy, keyof DBRecord>;
+
+/** Keyset position: sort value + id of the last row of the previous page */
+export type RecordCursor = { value: string | number | null; id: string };
+
+export type KeywordFacet = { keyword: string; count: number };
+export type SourceOption = { source: string; count: number };
+
+export type SourceStats = {
+  source: string;
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  /** Means are null when no row of the source has a value */
+  avgScore: number | null;
+  avgConfidence: number | null;
+  avgRating: number | null;
+  rated: number;
+  topKeywords: string[];
+};
+
+/** System Health headline numbers, over all records */
+export type HealthStats = {
+  total: number;
+  analyzed: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  /** Means are null when no record has a value */
+  avgConfidence: number | null;
+  avgRating: number | null;
+  rated: number;
+  latestCreatedAt: string | null;
+};
+
+export type TrendBucket = "day" | "week";
+export type TrendPoint = {
+  /** Bucket start (UTC midnight; Monday for weeks) */
+  bucket: string;
+  positive: number;
+  neutral: number;
+  negative: number;
+  /** Mean sentiment_score (-1..1), null for an empty bucket */
+  avgScore: number | null;
+};
+
+export type RecordPage = {
+  records: AnalyzedRecord[];
+  /** Total matching rows (from `count=exact`); only requested on the first page */
+  total: number | null;
+  /** null when this was the last page */
+  nextCursor: RecordCursor | null;
+};
+
+function authHeaders(): Record<string, string> {
+  return { apikey: SB_ANON, Authorization: `Bearer ${SB_ANON}` };
+}
+
+/** PostgREST reserves `,.:()` inside `or=(...)`, so values must be quoted */
+function quote(v: string) {
+  return `"${v.replace(/"/g, '\\"')}"`;
+}
+
+/** Postgres array literal for cs./ov. filters: `{"rate cut","fed"}` */
+function pgArray(values: string[]) {
+  return `{${values
+    .map((v) => `"${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`)
+    .join(",")}}`;
+}
+
+/** `Content-Range: 0-49/1234` -> 1234 (`*` when the count was not requested) */
+function parseTotal(contentRange: string | null): number | null {
+  const m = contentRange?.match(/\/(\d+)$/);
+  return m ? Number(m[1]) : null;
+}
+
+/* ---- Map DB -> UI shape ---- */
+export function toAnalyzedRecord(row: DBRecord): AnalyzedRecord {
+  return {
+    id: row.id,
+    source: row.source,
+    url: row.url,
+    content: row.content,
+    created_at: row.created_at,
+    publishedAt: row.published_at,
+    analyzedAt: row.analyzed_at,
+    analysisStatus: row.analysis_status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    analysisModel: row.analysis_model,
+    analysisPromptVersion: row.analysis_prompt_version,
+    currentAnalysisId: row.current_analysis_id,
+    userRating: row.user_rating ?? undefined,
+    duplicateOf: row.duplicate_of
+      ? { id: row.duplicate_of, ...(row.original ?? {}) }
+      : null,
+    analysis: {
+      summary: row.summary ?? "",
+      keywords: row.keywords ?? [],
+      sentiment: (row.sentiment ?? "neutral") as
+        | "positive"
+        | "neutral"
+        | "negative",
+      // Convert -1..1 to 0..1 for the UI “confidence”
+      confidence:
+        typeof row.sentiment_score === "number"
+          ? Math.max(0, Math.min(1, (row.sentiment_score + 1) / 2))
+          : 0.5
+    }
+  };
+}
+
+/** Rows strictly after the cursor in `<col>.desc.nullslast,id.desc` order */
+export function afterCursor(col: string, cursor: RecordCursor): string {
+  const id = quote(cursor.id);
+  if (cursor.value === null) return `and(${col}.is.null,id.lt.${id})`;
+  const v = quote(String(cursor.value));
+  return `or(${col}.lt.${v},and(${col}.eq.${v},id.lt.${id}),${col}.is.null)`;
+}
+
+/** Selected records, or everything matching a query */
+export type ReanalyzeTarget = { ids: string[] } | { query: RecordQuery };
+
+/** The query's filters as analyze-records' `filter` (re-analysis); same semantics as fetchRecords() */
+export function analysisFilter(query: RecordQuery) {
+  const { from, to } = dateBounds(query);
+  return {
+    sentiment: query.sentiment === "all" ? null : query.sentiment,
+    search: query.search.trim() || null,
+    keywords: query.keywords,
+    matchAll: query.keywordMatch === "all",
+    from,
+    to,
+    sources: query.sources
+  };
+}
+
+/** Set the query's filters on a /records URL; returns the `and=(...)` conditions */
+export function applyFilters(url: URL, query: RecordQuery): string[] {
+  const conditions: string[] = [];
+  if (query.sentiment !== "all") {
+    url.searchParams.set("sentiment", `eq.${query.sentiment}`);
+  }
+  if (query.search.trim()) {
+    // websearch_to_tsquery: never errors on free-form input, unlike plain fts
+    url.searchParams.set("fts", `wfts(english).${query.search.trim()}`);
+  }
+  if (query.keywords.length) {
+    const op = query.keywordMatch === "all" ? "cs" : "ov";
+    url.searchParams.set("keywords", `${op}.${pgArray(query.keywords)}`);
+  }
+  if (query.sources.length) {
+    url.searchParams.set("source", `in.(${query.sources.map(quote).join(",")})`);
+  }
+  const { from, to } = dateBounds(query);
+  if (from) conditions.push(`created_at.gte.${quote(from)}`);
+  if (to) conditions.push(`created_at.lt.${quote(to)}`);
+  return conditions;
+}
+
+/* ---- Fetch one page of the query (keyset on the sort column, id) ---- */
+export async function fetchRecords(
+  query: RecordQuery,
+  cursor: RecordCursor | null = null,
+  limit = PAGE_SIZE
+): Promise<RecordPage> {
+  const col = SORT_COLUMNS[query.sortBy];
+
+  const url = new URL(`${SB_URL}/rest/v1/records`);
+  url.searchParams.set("select", SELECT);
+  const conditions = applyFilters(url, query);
+  url.searchParams.set("order", `${col}.desc.nullslast,id.desc`);
+  url.searchParams.set("limit", String(limit));
+  if (cursor) conditions.push(afterCursor(col, cursor));
+  if (conditions.length) {
+    url.searchParams.set("and", `(${conditions.join(",")})`);
+  }
+
+  const r = await fetch(url.toString(), {
+    headers: {
+      ...authHeaders(),
+      // counting is a second scan; the total doesn't change between pages
+      ...(cursor ? {} : { Prefer: "count=exact" })
+    }
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as DBRecord[];
+  const last = rows[rows.length - 1];
+
+  return {
+    records: rows.map(toAnalyzedRecord),
+    total: cursor ? null : parseTotal(r.headers.get("Content-Range")),
+    nextCursor:
+      rows.length === limit && last
+        ? { value: last[col], id: last.id }
+        : null
+  };
+}
+
+/** ids per request in fetchMatchingIds, to keep the URL short */
+const MATCH_CHUNK = 100;
+
+/* ---- Which of these records the query's filters match (realtime changes) ---- */
+export async function fetchMatchingIds(
+  query: RecordQuery,
+  ids: string[]
+): Promise<Set<string>> {
+  const matching = new Set<string>();
+  for (let i = 0; i < ids.length; i += MATCH_CHUNK) {
+    const url = new URL(`${SB_URL}/rest/v1/records`);
+    url.searchParams.set("select", "id");
+    url.searchParams.set(
+      "id",
+      `in.(${ids.slice(i, i + MATCH_CHUNK).map(quote).join(",")})`
+    );
+    const conditions = applyFilters(url, query);
+    if (conditions.length) {
+      url.searchParams.set("and", `(${conditions.join(",")})`);
+    }
+
+    const r = await fetch(url.toString(), { headers: authHeaders() });
+    if (!r.ok) throw new Error(await r.text());
+    for (const row of (await r.json()) as { id: string }[]) matching.add(row.id);
+  }
+  return matching;
+}
+
+/* ---- Most frequent keywords across the whole query result (RPC) ---- */
+export async function fetchKeywordFacets(
+  query: RecordQuery,
+  limit = 30
+): Promise<KeywordFacet[]> {
+  // same filters as fetchRecords(), see migrations/*_source_date_filters.sql
+  const { from, to } = dateBounds(query);
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/keyword_facets`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({
+      p_sentiment: query.sentiment === "all" ? null : query.sentiment,
+      p_search: query.search.trim() || null,
+      p_keywords: query.keywords,
+      p_match_all: query.keywordMatch === "all",
+      p_from: from,
+      p_to: to,
+      p_sources: query.sources,
+      p_limit: limit
+    })
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as { keyword: string; count: number | string }[];
+  // bigint comes back as a number or a string depending on PostgREST config
+  return rows.map((f) => ({ keyword: f.keyword, count: Number(f.count) }));
+}
+
+/* ---- Distinct sources (with row counts) for the source filter ---- */
+export async function fetchSources(): Promise<SourceOption[]> {
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/record_sources`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: "{}"
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as { source: string; count: number | string }[];
+  return rows.map((s) => ({ source: s.source, count: Number(s.count) }));
+}
+
+/* ---- Sentiment counts + mean score per day/week since `from` (RPC) ---- */
+export async function fetchSentimentTrend(
+  bucket: TrendBucket,
+  from: Date
+): Promise<TrendPoint[]> {
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/sentiment_trend`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({ p_bucket: bucket, p_from: from.toISOString() })
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as {
+    bucket: string;
+    positive: number | string;
+    neutral: number | string;
+    negative: number | string;
+    avg_score: number | null;
+  }[];
+  return rows.map((p) => ({
+    bucket: p.bucket,
+    positive: Number(p.positive),
+    neutral: Number(p.neutral),
+    negative: Number(p.negative),
+    avgScore: p.avg_score
+  }));
+}
+
+/* ---- Headline numbers for System Health (RPC) ---- */
+export async function fetchHealthStats(): Promise<HealthStats> {
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/health_stats`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: "{}"
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const [s] = (await r.json()) as {
+    total: number | string;
+    analyzed: number | string;
+    positive: number | string;
+    neutral: number | string;
+    negative: number | string;
+    avg_confidence: number | null;
+    avg_rating: number | null;
+    rated: number | string;
+    latest_created_at: string | null;
+  }[];
+  return {
+    total: Number(s?.total ?? 0),
+    analyzed: Number(s?.analyzed ?? 0),
+    positive: Number(s?.positive ?? 0),
+    neutral: Number(s?.neutral ?? 0),
+    negative: Number(s?.negative ?? 0),
+    avgConfidence: s?.avg_confidence ?? null,
+    avgRating: s?.avg_rating ?? null,
+    rated: Number(s?.rated ?? 0),
+    latestCreatedAt: s?.latest_created_at ?? null
+  };
+}
+
+/* ---- Per-source aggregates over the whole table (RPC) ---- */
+export async function fetchSourceStats(): Promise<SourceStats[]> {
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/source_stats`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: "{}"
+  });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as {
+    source: string;
+    total: number | string;
+    positive: number | string;
+    neutral: number | string;
+    negative: number | string;
+    avg_score: number | null;
+    avg_confidence: number | null;
+    avg_rating: number | null;
+    rated: number | string;
+    top_keywords: string[] | null;
+  }[];
+  return rows.map((s) => ({
+    source: s.source,
+    total: Number(s.total),
+    positive: Number(s.positive),
+    neutral: Number(s.neutral),
+    negative: Number(s.negative),
+    avgScore: s.avg_score,
+    avgConfidence: s.avg_confidence,
+    avgRating: s.avg_rating,
+    rated: Number(s.rated),
+    topKeywords: s.top_keywords ?? []
+  }));
+}
+
+/* ---- Persist a user rating (1..5) back to the record row ---- */
+export async function saveRating(id: string, rating: number): Promise<void> {
+  const url = new URL(`${SB_URL}/rest/v1/records`);
+  url.searchParams.set("id", `eq.${id}`);
+
+  const r = await fetch(url.toString(), {
+    method: "PATCH",
+    headers: {
+      ...authHeaders(),
+      "Content-Type": "application/json",
+      Prefer: "return=minimal"
+    },
+    body: JSON.stringify({ user_rating: rating })
+  });
+  if (!r.ok) throw new Error(await r.text());
+}
+
+/** Reset a failed/skipped record to pending (retry_record_analysis); false if it wasn't failed */
+export async function retryAnalysis(id: string): Promise<boolean> {
+  const r = await fetch(`${SB_URL}/rest/v1/rpc/retry_record_analysis`, {
+    method: "POST",
+    headers: { ...authHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({ p_id: id })
+  });
+  if (!r.ok) throw new Error(await r.text());
+  return (await r.json()) as boolean;
+}
+
+/* ---- Every analysis of a record, newest first (RecordCard history) ---- */
+export async function fetchAnalysisHistory(
+  recordId: string
+): Promise<AnalysisVersion[]> {
+  const url = new URL(`${SB_URL}/rest/v1/analyses`);
+  url.searchParams.set(
+    "select",
+    "id,model,prompt_version,summary,keywords,sentiment,sentiment_score,prompt_tokens,completion_tokens,total_tokens,created_at"
+  );
+  url.searchParams.set("record_id", `eq.${recordId}`);
+  url.searchParams.set("order", "created_at.desc,id.desc");
+
+  const r = await fetch(url.toString(), { headers: authHeaders() });
+  if (!r.ok) throw new Error(await r.text());
+
+  const rows = (await r.json()) as {
+    id: string;
+    model: string | null;
+    prompt_version: string | null;
+    summary: string | null;
+    keywords: string[] | null;
+    sentiment: AnalysisVersion["sentiment"];
+    sentiment_score: number | null;
+    prompt_tokens: number | null;
+    completion_tokens: number | null;
+    total_tokens: number | null;
+    created_at: string;
+  }[];
+  return rows.map((a) => ({
+    id: a.id,
+    model: a.model,
+    promptVersion: a.prompt_version,
+    summary: a.summary ?? "",
+    keywords: a.keywords ?? [],
+    sentiment: a.sentiment,
+    sentimentScore: a.sentiment_score,
+    promptTokens: a.prompt_tokens,
+    completionTokens: a.completion_tokens,
+    totalTokens: a.total_tokens,
+    createdAt: a.created_at
+  }));
+}
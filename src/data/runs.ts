@@ -0,0 +1,124 @@
+// src/data/runs.ts
+
+/* ---- Env (Vite) ---- */
+const SB_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SB_ANON = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+export const RUNS_PAGE_SIZE = 30;
+
+export type JobKind = "ingest" | "analyze";
+export type JobStatus = "running" | "succeeded" | "partial" | "failed";
+
+/** One fetch-apify / analyze-records execution (job_runs, see migrations) */
+export type JobRun = {
+  id: string;
+  job: JobKind;
+  trigger: "manual" | "schedule" | "webhook";
+  status: JobStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  /** ingest: fetchedCount/normalizedCount/insertedCount/...; analyze: processed/failed/skipped/deadLettered/batches */
+  counts: Record<string, number>;
+  firstError: string | null;
+};
+
+/** Per-source result of an ingest run, as returned by fetch-apify / fetch-feeds */
+export type IngestSourceResult = {
+  sourceId: string | null;
+  name: string;
+  /** Apify dataset id, or the feed URL */
+  datasetId: string | null;
+  fetchedCount: number;
+  normalizedCount: number;
+  insertedCount: number;
+  skippedDuplicates?: number;
+  linkedDuplicates?: number;
+  error?: string;
+  note?: string;
+};
+
+/** How fast an analysis run went, as reported by analyze-records */
+export type AnalyzeThroughput = {
+  elapsedMs: number;
+  /** records (processed + failed) per minute */
+  perMinute: number;
+  concurrency: number;
+  rateLimitPauses: number;
+  /** summed over workers, so it can exceed elapsedMs */
+  waitedMs: number;
+};
+
+/** Drill-down payload; the list query leaves it out to stay small */
+export type JobRunDetails = {
+  sources?: IngestSourceResult[];
+  errors?: { id: string; error: string }[];
+  stoppedOnQuota?: boolean;
+  /** time budget ran out with rows still pending */
+  stoppedOnBudget?: boolean;
+  throughput?: AnalyzeThroughput;
+};
+
+type JobRunRow = {
+  id: string;
+  job: JobKind;
+  trigger: JobRun["trigger"];
+  status: JobStatus;
+  started_at: string;
+  finished_at: string | null;
+  counts: Record<string, number> | null;
+  first_error: string | null;
+};
+
+function authHeaders(): Record<string, string> {
+  return { apikey: SB_ANON, Authorization: `Bearer ${SB_ANON}` };
+}
+
+/* ---- Newest first; `before` = startedAt of the last run already shown ---- */
+export async function fetchJobRuns(
+  job: JobKind | "all" = "all",
+  before: string | null = null,
+  limit = RUNS_PAGE_SIZE
+): Promise<JobRun[]> {
+  const url = new URL(`${SB_URL}/rest/v1/job_runs`);
+  url.searchParams.set(
+    "select",
+    "id,job,trigger,status,started_at,finished_at,counts,first_error"
+  );
+  if (job !== "all") url.searchParams.set("job", `eq.${job}`);
+  if (before) url.searchParams.set("started_at", `lt.${before}`);
+  url.searchParams.set("order", "started_at.desc");
+  url.searchParams.set("limit", String(limit));
+
+  const r = await fetch(url.toString(), { headers: authHeaders() });
+  if (!r.ok) throw new Error(await r.text());
+  const rows = (await r.json()) as JobRunRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    job: row.job,
+    trigger: row.trigger,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    counts: row.counts ?? {},
+    firstError: row.first_error
+  }));
+}
+
+/* ---- A fresh first page over the runs already shown (older pages are kept) ---- */
+export function mergeFirstRunsPage(shown: JobRun[], page: JobRun[]): JobRun[] {
+  // a short page is the whole list; anything missing from it is gone
+  if (page.length < RUNS_PAGE_SIZE) return page;
+  const oldest = page[page.length - 1].startedAt;
+  const fresh = new Set(page.map((r) => r.id));
+  return [...page, ...shown.filter((r) => !fresh.has(r.id) && r.startedAt < oldest)];
+}
+
+export async function fetchJobRunDetails(id: string): Promise<JobRunDetails> {
+  const url = new URL(`${SB_URL}/rest/v1/job_runs`);
+  url.searchParams.set("select", "details");
+  url.searchParams.set("id", `eq.${id}`);
+  const r = await fetch(url.toString(), { headers: authHeaders() });
+  if (!r.ok) throw new Error(await r.text());
+  const rows = (await r.json()) as { details: JobRunDetails | null }[];
+  return rows[0]?.details ?? {};
+}
@@ -0,0 +1,65 @@
+// src/data/trend.ts
+import type { TrendBucket, TrendPoint } from "./records";
+
+/* ---- Selectable windows for the sentiment trend panel ---- */
+export const TREND_WINDOWS = [
+  { id: "7d", label: "7 days", days: 7, bucket: "day" },
+  { id: "30d", label: "30 days", days: 30, bucket: "day" },
+  { id: "90d", label: "90 days", days: 90, bucket: "week" },
+  { id: "1y", label: "1 year", days: 365, bucket: "week" }
+] as const satisfies readonly {
+  id: string;
+  label: string;
+  days: number;
+  bucket: TrendBucket;
+}[];
+export type TrendWindow = (typeof TREND_WINDOWS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** UTC start of the bucket containing `d` (weeks start on Monday, like date_trunc) */
+function bucketStart(d: Date, bucket: TrendBucket): Date {
+  const start = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+  );
+  if (bucket === "week") {
+    const sinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - sinceMonday);
+  }
+  return start;
+}
+
+/** First bucket of the window; also what the RPC is asked for */
+export function trendStart(w: TrendWindow, now = new Date()): Date {
+  return bucketStart(new Date(now.getTime() - (w.days - 1) * DAY_MS), w.bucket);
+}
+
+/** One point per bucket in the window, zero-filling buckets with no records */
+export function fillTrend(
+  points: TrendPoint[],
+  w: TrendWindow,
+  now = new Date()
+): TrendPoint[] {
+  const byStart = new Map(
+    points.map((p) => [new Date(p.bucket).getTime(), p] as const)
+  );
+  const step = (w.bucket === "week" ? 7 : 1) * DAY_MS;
+  const out: TrendPoint[] = [];
+
+  for (
+    let t = trendStart(w, now).getTime();
+    t <= now.getTime();
+    t += step
+  ) {
+    out.push(
+      byStart.get(t) ?? {
+        bucket: new Date(t).toISOString(),
+        positive: 0,
+        neutral: 0,
+        negative: 0,
+        avgScore: null
+      }
+    );
+  }
+  return out;
+}
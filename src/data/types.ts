@@ -1,15 +1,37 @@
 // src/data/types.ts
+/** Where a record is in analyze-records' queue; failed = gave up after max attempts */
+export type AnalysisStatus = "pending" | "processing" | "done" | "failed" | "skipped";
+
 export type DBRecord = {
   id: string;
   source: string;
   url: string | null;
   content: string;
   created_at: string;
+  inserted_at: string;
+  published_at: string | null;
+  /** published_at ?? created_at (generated; what the date sort uses) */
+  effective_date: string;
   summary: string | null;
   keywords: string[] | null;
   sentiment: "positive" | "neutral" | "negative" | null;
   sentiment_score: number | null;   // -1..1
   analyzed_at: string | null;
+  analysis_status: AnalysisStatus;
+  /** analysis claims so far (see claim_pending_records) */
+  attempts: number;
+  last_error: string | null;
+  /** backoff after a failed attempt */
+  next_attempt_at: string | null;
+  /** what produced the current analysis (analyze-records AI_MODEL / PROMPT_VERSION) */
+  analysis_model: string | null;
+  analysis_prompt_version: string | null;
+  /** the analyses row the columns above were copied from */
+  current_analysis_id: string | null;
+  user_rating: number | null;       // 1..5
+  duplicate_of: string | null;
+  /** embedded via duplicate_of; absent in realtime payloads */
+  original?: { source: string; url: string | null } | null;
 };
 
 export type AnalyzedRecord = {
@@ -18,7 +40,21 @@ export type AnalyzedRecord = {
   url?: string | null;
   content: string;
   created_at: string;
+  /** parsed publish time, when the source item had one */
+  publishedAt?: string | null;
+  /** null while the record is still waiting for analyze-records */
+  analyzedAt?: string | null;
+  analysisStatus?: AnalysisStatus;
+  attempts?: number;
+  /** why the last attempt failed / the row was skipped */
+  lastError?: string | null;
+  nextAttemptAt?: string | null;
+  analysisModel?: string | null;
+  analysisPromptVersion?: string | null;
+  currentAnalysisId?: string | null;
   userRating?: number;
+  /** set when this is a syndicated copy of an earlier record */
+  duplicateOf?: { id: string; source?: string; url?: string | null } | null;
   analysis: {
     summary: string;
     keywords: string[];
@@ -26,3 +62,19 @@ export type AnalyzedRecord = {
     confidence: number; // 0..1
   };
 };
+
+/** One stored result of analyze-records (public.analyses), newest first in the history */
+export type AnalysisVersion = {
+  id: string;
+  model: string | null;
+  promptVersion: string | null;
+  summary: string;
+  keywords: string[];
+  sentiment: "positive" | "neutral" | "negative" | null;
+  /** -1..1 as the model returned it */
+  sentimentScore: number | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  createdAt: string;
+};
@@ -0,0 +1,68 @@
+// deno test --allow-env supabase/functions/_shared
+import assert from "node:assert/strict";
+
+// rows.ts reads the Supabase env at import time; nothing here talks to it
+if (!Deno.env.get("SB_URL")) Deno.env.set("SB_URL", "http://localhost:54321");
+if (!Deno.env.get("SB_SERVICE_ROLE_KEY")) Deno.env.set("SB_SERVICE_ROLE_KEY", "test");
+const { parseDateish, parseLocaleDate, parsePublished } = await import("./rows.ts");
+
+// Wednesday, mid-day UTC
+const ANCHOR = new Date("2026-10-14T12:00:00Z");
+const published = (raw: string | null) => parsePublished(raw, ANCHOR);
+
+Deno.test("parseDateish: ISO-ish with and without a zone", () => {
+  assert.equal(parseDateish("2025-10-27 12:03:51"), "2025-10-27T12:03:51.000Z");
+  assert.equal(parseDateish("2025-10-27T12:03:51+02:00"), "2025-10-27T10:03:51.000Z");
+  assert.equal(parseDateish("2025-10-27"), "2025-10-27T00:00:00.000Z");
+  assert.equal(parseDateish("27.10.2025"), null);
+  assert.equal(parseDateish(42), null);
+});
+
+Deno.test("parsePublished: relative, English", () => {
+  assert.equal(published("3 days ago"), "2026-10-11T12:00:00.000Z");
+  assert.equal(published("a day ago"), "2026-10-13T12:00:00.000Z");
+  assert.equal(published("about 2 hours ago"), "2026-10-14T10:00:00.000Z");
+  assert.equal(published("2h"), "2026-10-14T10:00:00.000Z");
+  assert.equal(published("1 week ago"), "2026-10-07T12:00:00.000Z");
+  assert.equal(published("2 months ago"), "2026-08-14T12:00:00.000Z");
+  assert.equal(published("yesterday"), "2026-10-13T12:00:00.000Z");
+  assert.equal(published("just now"), "2026-10-14T12:00:00.000Z");
+});
+
+Deno.test("parsePublished: relative, other locales", () => {
+  assert.equal(published("vor 3 Tagen"), "2026-10-11T12:00:00.000Z");
+  assert.equal(published("vor einem Tag"), "2026-10-13T12:00:00.000Z");
+  assert.equal(published("il y a 2 heures"), "2026-10-14T10:00:00.000Z");
+  assert.equal(published("hace 3 días"), "2026-10-11T12:00:00.000Z");
+  assert.equal(published("há 1 semana"), "2026-10-07T12:00:00.000Z");
+  assert.equal(published("3 giorni fa"), "2026-10-11T12:00:00.000Z");
+  assert.equal(published("2 dagen geleden"), "2026-10-12T12:00:00.000Z");
+  assert.equal(published("gestern"), "2026-10-13T12:00:00.000Z");
+  assert.equal(published("avant-hier"), "2026-10-12T12:00:00.000Z");
+});
+
+Deno.test("parsePublished: absolute locale dates", () => {
+  assert.equal(published("7 Nov 2025"), "2025-11-07T00:00:00.000Z");
+  assert.equal(published("Nov 7, 2025 2:30 pm"), "2025-11-07T14:30:00.000Z");
+  assert.equal(published("7. November 2025"), "2025-11-07T00:00:00.000Z");
+  assert.equal(published("7 de noviembre de 2025"), "2025-11-07T00:00:00.000Z");
+  assert.equal(published("7 février 2025"), "2025-02-07T00:00:00.000Z");
+  assert.equal(published("07.11.2025"), "2025-11-07T00:00:00.000Z");
+  assert.equal(published("11/07/2025"), "2025-11-07T00:00:00.000Z");
+  assert.equal(published("25/12/2025"), "2025-12-25T00:00:00.000Z");
+});
+
+Deno.test("parseLocaleDate: no year means the latest such date not after the anchor", () => {
+  assert.equal(parseLocaleDate("7 Oct", ANCHOR)?.toISOString(), "2026-10-07T00:00:00.000Z");
+  assert.equal(parseLocaleDate("20 Oct", ANCHOR)?.toISOString(), "2025-10-20T00:00:00.000Z");
+});
+
+Deno.test("parsePublished: unparseable input is null", () => {
+  assert.equal(published(null), null);
+  assert.equal(published(""), null);
+  assert.equal(published("sometime soon"), null);
+  assert.equal(published("3 fortnights ago"), null);
+  assert.equal(published("31.13.2025"), null);
+  // Spanish/Italian "ago" is August, but not at the end of a relative phrase
+  assert.equal(published("15 ago 2025"), "2025-08-15T00:00:00.000Z");
+});
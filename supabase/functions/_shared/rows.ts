@@ -0,0 +1,416 @@
+// Record rows shared by the ingestion paths (fetch-apify, fetch-feeds, import-records):
+// the Row shape, field validation, date parsing, dedup and the upsert.
+import { SERVICE_ROLE, SUPABASE_URL } from "./supabase.ts";
+
+/** ===== Rows ===== */
+export type AnyObj = Record<string, unknown>;
+export type Row = {
+  id?: string;
+  apify_item_id?: string | null;
+  source_id?: string | null;
+  source: string;
+  url?: string | null;
+  content: string;
+  created_at: string;
+  /** when the item says it was published; null if it doesn't or can't be parsed */
+  published_at?: string | null;
+  content_hash?: string;
+  canonical_url?: string | null;
+  duplicate_of?: string | null;
+  /** fetch-feeds: the entry's guid/id, unique per source */
+  feed_guid?: string | null;
+};
+
+export const isStr = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+
+export function stripHtml(s: string) {
+  return s.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** ===== Dates ===== */
+/** ISO-ish parse: "YYYY-MM-DD HH:mm:ss" -> "YYYY-MM-DDTHH:mm:ssZ"; null if unparseable */
+export function parseDateish(raw: unknown): string | null {
+  if (!isStr(raw)) return null;
+  const normalized = raw.trim().replace(" ", "T");
+  if (!/^\d{4}-\d{2}-\d{2}/.test(normalized)) return null;
+  const hasTZ = /Z$/i.test(normalized) || /[+-]\d{2}:?\d{2}$/.test(normalized);
+  const d = new Date(hasTZ ? normalized : `${normalized}Z`);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+type DateUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+/** Unit words (lowercase, accents stripped) in en/de/fr/es/pt/it/nl */
+const UNIT_WORDS: Record<DateUnit, string[]> = {
+  second: ["s", "sec", "secs", "second", "seconds", "sekunde", "sekunden", "seconde", "secondes", "segundo", "segundos", "secondo", "secondi", "seconden"],
+  minute: ["m", "min", "mins", "minute", "minutes", "minuten", "minuto", "minutos", "minuti", "minuut"],
+  hour: ["h", "hr", "hrs", "hour", "hours", "stunde", "stunden", "std", "heure", "heures", "hora", "horas", "ora", "ore", "uur", "uren"],
+  day: ["d", "day", "days", "tag", "tage", "tagen", "jour", "jours", "dia", "dias", "giorno", "giorni", "dag", "dagen"],
+  week: ["w", "wk", "wks", "week", "weeks", "woche", "wochen", "semaine", "semaines", "semana", "semanas", "settimana", "settimane", "weken"],
+  month: ["mo", "mos", "month", "months", "monat", "monate", "monaten", "mois", "mes", "meses", "mese", "mesi", "maand", "maanden"],
+  year: ["y", "yr", "yrs", "year", "years", "jahr", "jahre", "jahren", "an", "ans", "annee", "annees", "ano", "anos", "anno", "anni", "jaar", "jaren"],
+};
+const UNIT_BY_WORD = new Map(
+  Object.entries(UNIT_WORDS).flatMap(([unit, words]) => words.map((w) => [w, unit as DateUnit])),
+);
+
+/** "a day ago", "vor einem Tag", "il y a un jour"... */
+const ONE = ["a", "an", "one", "ein", "eine", "einem", "einer", "un", "une", "uno", "una", "um", "uma", "een"];
+
+/** Days back for words like "yesterday" (0 = the anchor day itself) */
+const DAY_WORDS: Record<string, number> = {
+  "just now": 0, now: 0, "gerade eben": 0, "a l'instant": 0, ahora: 0, agora: 0, adesso: 0, zojuist: 0,
+  today: 0, heute: 0, "aujourd'hui": 0, hoy: 0, hoje: 0, oggi: 0, vandaag: 0,
+  yesterday: 1, gestern: 1, hier: 1, ayer: 1, ontem: 1, ieri: 1, gisteren: 1,
+  vorgestern: 2, "avant-hier": 2, anteayer: 2, anteontem: 2, "l'altro ieri": 2, eergisteren: 2,
+};
+
+const MONTH_WORDS: string[][] = [
+  ["jan", "january", "januar", "janvier", "janv", "enero", "ene", "gennaio", "gen", "januari", "janeiro"],
+  ["feb", "february", "februar", "fevrier", "fev", "febrero", "febbraio", "februari", "fevereiro"],
+  ["mar", "march", "marz", "maerz", "mars", "marzo", "maart", "marco"],
+  ["apr", "april", "avril", "avr", "abril", "abr", "aprile"],
+  ["may", "mai", "mayo", "maggio", "mag", "mei", "maio"],
+  ["jun", "june", "juni", "juin", "junio", "giugno", "giu", "junho"],
+  ["jul", "july", "juli", "juillet", "juil", "julio", "luglio", "lug", "julho"],
+  ["aug", "august", "aout", "agosto", "ago", "augustus"],
+  ["sep", "sept", "september", "septembre", "septiembre", "settembre", "set", "setembro"],
+  ["oct", "october", "oktober", "okt", "octobre", "octubre", "ottobre", "ott", "outubro", "out"],
+  ["nov", "november", "novembre", "noviembre", "novembro"],
+  ["dec", "december", "dezember", "dez", "decembre", "diciembre", "dic", "dicembre", "dezembro"],
+];
+const MONTH_BY_WORD = new Map(MONTH_WORDS.flatMap((words, i) => words.map((w) => [w, i])));
+
+function foldText(s: string): string {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function minusUnits(anchor: Date, n: number, unit: DateUnit): Date {
+  const d = new Date(anchor);
+  const ms = { second: 1e3, minute: 6e4, hour: 36e5, day: 864e5, week: 6048e5 } as const;
+  if (unit === "month") d.setUTCMonth(d.getUTCMonth() - n);
+  else if (unit === "year") d.setUTCFullYear(d.getUTCFullYear() - n);
+  else d.setTime(d.getTime() - n * ms[unit]);
+  return d;
+}
+
+/** "3 days ago", "vor 3 Tagen", "il y a 3 jours", "hace 3 días", "3 giorni fa", "2h" */
+function parseRelative(text: string, anchor: Date): Date | null {
+  const s = foldText(text);
+  if (s in DAY_WORDS) return minusUnits(anchor, DAY_WORDS[s], "day");
+
+  const m =
+    /^(?:about |around |ca\.? |etwa |environ |hace |vor |il y a |ha |faz )?(\d+|[a-z]+)\s*([a-z]+)\.?(?: ago| fa| geleden| atras)?$/.exec(
+      s,
+    );
+  if (!m) return null;
+  const n = /^\d+$/.test(m[1]) ? Number(m[1]) : ONE.includes(m[1]) ? 1 : null;
+  const unit = UNIT_BY_WORD.get(m[2]);
+  return n === null || !unit ? null : minusUnits(anchor, n, unit);
+}
+
+/** "… ago" phrasing, even with a unit we don't know ("3 fortnights ago") */
+function looksRelative(text: string): boolean {
+  return /(?:^| )(?:ago|fa|geleden|atras)$|^(?:vor|hace|il y a|ha|faz) /.test(foldText(text));
+}
+
+/** "7 Nov 2025", "Nov 7, 2025 14:30", "7. November 2025", "7 de noviembre de 2025", "07.11.2025", "11/07/2025" */
+export function parseLocaleDate(text: string, anchor: Date): Date | null {
+  const s = foldText(text);
+  const time = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/.exec(s);
+  let hours = time ? Number(time[1]) % 24 : 0;
+  if (time?.[4] === "pm" && hours < 12) hours += 12;
+  if (time?.[4] === "am" && hours === 12) hours = 0;
+  const rest = time ? s.replace(time[0], " ") : s;
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+
+  // numeric: dd.mm.yyyy (de/nl...), mm/dd/yyyy (en-US) unless the first part can't be a month
+  const numeric = /\b(\d{1,2})([./-])(\d{1,2})\2(\d{2,4})\b/.exec(rest);
+  if (numeric) {
+    const [a, b] = [Number(numeric[1]), Number(numeric[3])];
+    const dayFirst = numeric[2] !== "/" || a > 12;
+    [day, month] = dayFirst ? [a, b - 1] : [b, a - 1];
+    year = Number(numeric[4]) < 100 ? 2000 + Number(numeric[4]) : Number(numeric[4]);
+  } else {
+    for (const tok of rest.split(/[\s,]+/).map((t) => t.replace(/\.$/, ""))) {
+      if (month === null && MONTH_BY_WORD.has(tok)) month = MONTH_BY_WORD.get(tok) ?? null;
+      else if (/^\d{4}$/.test(tok)) year = Number(tok);
+      else if (/^\d{1,2}(st|nd|rd|th|er|o)?$/.test(tok) && day === null) day = parseInt(tok, 10);
+    }
+    if (month === null || day === null) return null;
+  }
+  if (day < 1 || day > 31 || month < 0 || month > 11) return null;
+
+  const [m, dd] = [month, day];
+  const build = (y: number) =>
+    new Date(Date.UTC(y, m, dd, hours, time ? Number(time[2]) : 0, time?.[3] ? Number(time[3]) : 0));
+  // "7 Nov" without a year: the latest such date not after the anchor
+  let d = build(year ?? anchor.getUTCFullYear());
+  if (year === null && d > anchor) d = build(anchor.getUTCFullYear() - 1);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/** Absolute (ISO or locale) or relative publish time; relative ones count back from `anchor` */
+export function parsePublished(raw: string | null, anchor: Date): string | null {
+  if (!raw) return null;
+  const iso = parseDateish(raw);
+  if (iso) return iso;
+  // an unknown relative phrase is no date: "ago" would otherwise read as August
+  const d = parseRelative(raw, anchor) ?? (looksRelative(raw) ? null : parseLocaleDate(raw, anchor));
+  return d ? d.toISOString() : null;
+}
+
+export function hostnameOf(u: string | null): string | null {
+  if (!u) return null;
+  try {
+    return new URL(u).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/** Mapped fields of one item, before dedup assigns id/hash/duplicate_of */
+export type MappedRow = Pick<
+  Row,
+  "apify_item_id" | "source" | "url" | "content" | "created_at" | "published_at" | "feed_guid"
+> & {
+  dedup_text: string;
+};
+
+/** ===== Validation ===== */
+/** One item's fields as text, however they were picked (mapping rules, import columns) */
+export type RowFields = {
+  content?: string | null;
+  url?: string | null;
+  source?: string | null;
+  createdAt?: string | null;
+  publishedAt?: string | null;
+  apifyItemId?: string | null;
+  /** what dedup hashes; defaults to the content */
+  dedupText?: string | null;
+};
+
+export type RowCheck =
+  | { row: MappedRow; warnings: string[]; error?: undefined }
+  | { row: null; warnings: string[]; error: string };
+
+/**
+ * The single validation path for new records: content is required (HTML
+ * stripped, capped at 20k chars), only http(s) URLs are kept, the source falls
+ * back to the URL's host, and unparseable dates fall back instead of failing.
+ * `runAt` anchors relative publish times when the item has no date of its own.
+ */
+export function validateRow(
+  f: RowFields,
+  runAt: Date | null = null,
+  defaultSource = "unknown",
+): RowCheck {
+  const warnings: string[] = [];
+  const text = f.content ? stripHtml(f.content).slice(0, 20_000) : "";
+  if (!text) return { row: null, warnings, error: "content is empty" };
+
+  const rawUrl = f.url?.trim() || null;
+  const link = rawUrl && /^https?:\/\//i.test(rawUrl) && hostnameOf(rawUrl) ? rawUrl : null;
+  if (rawUrl && !link) warnings.push(`url ignored (not an http(s) URL): ${rawUrl.slice(0, 80)}`);
+
+  const now = new Date();
+  const scrapedAt = f.createdAt
+    ? (parseDateish(f.createdAt) ?? parseLocaleDate(f.createdAt, now)?.toISOString() ?? null)
+    : null;
+  if (f.createdAt && !scrapedAt) warnings.push(`created_at not understood, using now: ${f.createdAt}`);
+
+  const published = parsePublished(f.publishedAt ?? null, scrapedAt ? new Date(scrapedAt) : (runAt ?? now));
+  if (f.publishedAt && !published) warnings.push(`published_at not understood: ${f.publishedAt}`);
+
+  return {
+    row: {
+      apify_item_id: f.apifyItemId ?? null,
+      source: f.source?.trim() || hostnameOf(link) || defaultSource,
+      url: link,
+      content: text,
+      created_at: scrapedAt ?? now.toISOString(),
+      published_at: published,
+      dedup_text: f.dedupText ? stripHtml(f.dedupText) : text,
+    },
+    warnings,
+  };
+}
+
+/** ===== Dedup (content_hash / canonical_url) ===== */
+// "link" keeps copies from other sources with duplicate_of set; "skip" drops them too
+const DEDUP_MODE = Deno.env.get("DEDUP_MODE") === "skip" ? "skip" : "link";
+
+const TRACKING_PARAM =
+  /^(utm_.+|fbclid|gclid|dclid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|_gl|ref|ref_src|cmpid|ocid|spm)$/i;
+
+/** https, host without www., no fragment or tracking params, sorted query, no trailing slash */
+function canonicalUrl(u: string | null | undefined): string | null {
+  if (!u) return null;
+  try {
+    const url = new URL(u);
+    for (const k of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAM.test(k)) url.searchParams.delete(k);
+    }
+    url.searchParams.sort();
+    const host = url.host.toLowerCase().replace(/^www\./, "");
+    const path = url.pathname.replace(/\/+$/, "");
+    return `https://${host}${path}${url.search}`;
+  } catch {
+    return null;
+  }
+}
+
+/** sha256 of the text with case, punctuation, markup and spacing differences removed */
+async function contentHash(text: string): Promise<string> {
+  const normalized = text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+type Known = Pick<Row, "source" | "duplicate_of"> & {
+  id: string;
+  content_hash: string | null;
+  canonical_url: string | null;
+};
+
+/** PostgREST reserves `,.:()` inside `in.(...)`, so values must be quoted */
+export function pgQuote(v: string) {
+  return `"${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Lookup chunk sizes: the values travel in the GET query string, and a page
+ * of 500 hashes (64 hex chars each) or URLs would exceed gateway URL limits.
+ */
+const HASH_CHUNK = 50;
+const URL_CHUNK = 20;
+
+async function lookupKnown(filter: string): Promise<Known[]> {
+  const url = new URL(`${SUPABASE_URL}/rest/v1/records`);
+  url.searchParams.set("select", "id,source,content_hash,canonical_url,duplicate_of");
+  url.searchParams.set("or", `(${filter})`);
+  const res = await fetch(url, {
+    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+  });
+  if (!res.ok) throw new Error(`Supabase dedup lookup error ${res.status}: ${await res.text()}`);
+  return (await res.json()) as Known[];
+}
+
+/** Stored records sharing a hash or canonical URL with the batch */
+async function findKnown(hashes: string[], urls: string[]): Promise<Known[]> {
+  const filters: string[] = [];
+  for (let i = 0; i < hashes.length; i += HASH_CHUNK) {
+    filters.push(`content_hash.in.(${hashes.slice(i, i + HASH_CHUNK).join(",")})`);
+  }
+  for (let i = 0; i < urls.length; i += URL_CHUNK) {
+    filters.push(`canonical_url.in.(${urls.slice(i, i + URL_CHUNK).map(pgQuote).join(",")})`);
+  }
+
+  // a record can match both by hash and by URL: keep it once
+  const known = new Map<string, Known>();
+  for (const filter of filters) {
+    for (const k of await lookupKnown(filter)) known.set(k.id, k);
+  }
+  return [...known.values()];
+}
+
+export type DedupDecision = { action: "new" | "skip" | "link"; duplicateOf?: string };
+
+/**
+ * Hash + canonicalize a page of rows and match them against stored records and
+ * earlier rows of the same page. A match from the same source is a re-scrape
+ * (skipped); one from another source is syndication (linked to the original).
+ */
+export async function dedupRows(
+  mapped: MappedRow[],
+  sourceId: string | null,
+): Promise<{ rows: Row[]; decisions: DedupDecision[] }> {
+  const prepared = await Promise.all(
+    mapped.map(async ({ dedup_text, ...r }) => ({
+      ...r,
+      id: crypto.randomUUID(),
+      source_id: sourceId,
+      content_hash: await contentHash(dedup_text || r.content),
+      canonical_url: canonicalUrl(r.url),
+      duplicate_of: null as string | null,
+    })),
+  );
+
+  const known = await findKnown(
+    [...new Set(prepared.map((r) => r.content_hash))],
+    [...new Set(prepared.map((r) => r.canonical_url).filter(isStr))],
+  );
+  const byKey = new Map<string, Known[]>();
+  const remember = (k: Known) => {
+    for (const key of [k.content_hash, k.canonical_url]) {
+      if (key) byKey.set(key, [...(byKey.get(key) ?? []), k]);
+    }
+  };
+  known.forEach(remember);
+
+  const rows: Row[] = [];
+  const decisions: DedupDecision[] = [];
+  for (const r of prepared) {
+    const matches = [
+      ...(byKey.get(r.content_hash) ?? []),
+      ...(r.canonical_url ? byKey.get(r.canonical_url) ?? [] : []),
+    ];
+    if (!matches.length) {
+      rows.push(r);
+      remember(r);
+      decisions.push({ action: "new" });
+      continue;
+    }
+
+    // always point at the first copy, never at another duplicate
+    const first = matches.find((k) => !k.duplicate_of) ?? matches[0];
+    const originalId = first.duplicate_of ?? first.id;
+    if (DEDUP_MODE === "skip" || matches.some((k) => k.source === r.source)) {
+      decisions.push({ action: "skip", duplicateOf: originalId });
+      continue;
+    }
+    const linked = { ...r, duplicate_of: originalId };
+    rows.push(linked);
+    remember(linked);
+    decisions.push({ action: "link", duplicateOf: originalId });
+  }
+  return { rows, decisions };
+}
+
+/** ===== Upsert ===== */
+export async function upsertRows(rows: Row[]): Promise<number> {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/records`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: SERVICE_ROLE,
+      Authorization: `Bearer ${SERVICE_ROLE}`,
+      Prefer: "resolution=merge-duplicates,return=representation",
+    },
+    body: JSON.stringify(rows),
+  });
+  if (!res.ok) throw new Error(`Supabase upsert error ${res.status}: ${await res.text()}`);
+
+  const text = await res.text();
+  if (!text) return rows.length;
+  try {
+    const json = JSON.parse(text);
+    return Array.isArray(json) ? json.length : rows.length;
+  } catch {
+    return rows.length;
+  }
+}
+
@@ -0,0 +1,98 @@
+// Service-role access shared by the Edge Functions (see ../<function>/index.ts)
+
+/** ===== Env ===== */
+export function requireEnv(name: string, v?: string | null) {
+  if (!v || !v.trim()) throw new Error(`Server misconfigured: ${name} not set`);
+  return v;
+}
+export const SUPABASE_URL = requireEnv("SB_URL", Deno.env.get("SB_URL"));
+export const SERVICE_ROLE = requireEnv("SB_SERVICE_ROLE_KEY", Deno.env.get("SB_SERVICE_ROLE_KEY"));
+
+/** ===== Callers ===== */
+/** Constant-time string compare, so a secret can't be guessed byte by byte */
+export function safeEqual(a: string, b: string): boolean {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+function bearer(req: Request): string {
+  return req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+}
+
+/**
+ * The other functions and cron call with the service role key; the dashboard
+ * only has the anon key (verify_jwt accepts both).
+ */
+export function isServiceRole(req: Request): boolean {
+  return safeEqual(bearer(req), SERVICE_ROLE);
+}
+
+/** Service role, or a signed-in user's session (checked with Supabase Auth) */
+export async function isServiceOrUser(req: Request): Promise<boolean> {
+  if (isServiceRole(req)) return true;
+  const token = bearer(req);
+  if (!token) return false;
+  // the anon key is a valid JWT too, but Auth has no user for it
+  const res = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${token}` },
+  });
+  await res.body?.cancel();
+  return res.ok;
+}
+
+/** ===== Job runs (job_runs) ===== */
+export const JOB_TRIGGERS = ["manual", "schedule", "webhook"] as const;
+export type JobTrigger = (typeof JOB_TRIGGERS)[number];
+
+export type JobRunUpdate = {
+  status: "succeeded" | "partial" | "failed";
+  counts?: Record<string, number>;
+  first_error?: string | null;
+  details?: unknown;
+};
+
+/** Bookkeeping only: a failure here is logged and never fails the job itself */
+export async function startJobRun(
+  job: "ingest" | "analyze",
+  trigger: JobTrigger,
+): Promise<string | null> {
+  try {
+    const res = await fetch(`${SUPABASE_URL}/rest/v1/job_runs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: SERVICE_ROLE,
+        Authorization: `Bearer ${SERVICE_ROLE}`,
+        Prefer: "return=representation",
+      },
+      body: JSON.stringify({ job, trigger }),
+    });
+    if (!res.ok) throw new Error(`Supabase job_runs insert error ${res.status}: ${await res.text()}`);
+    const [row] = (await res.json()) as { id: string }[];
+    return row?.id ?? null;
+  } catch (e) {
+    console.error("Job run not recorded:", e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+export async function finishJobRun(id: string | null, update: JobRunUpdate): Promise<void> {
+  if (!id) return;
+  try {
+    const res = await fetch(`${SUPABASE_URL}/rest/v1/job_runs?id=eq.${id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: SERVICE_ROLE,
+        Authorization: `Bearer ${SERVICE_ROLE}`,
+      },
+      body: JSON.stringify({ ...update, finished_at: new Date().toISOString() }),
+    });
+    if (!res.ok) throw new Error(`Supabase job_runs update error ${res.status}: ${await res.text()}`);
+  } catch (e) {
+    console.error("Job run not finished:", e instanceof Error ? e.message : String(e));
+  }
+}
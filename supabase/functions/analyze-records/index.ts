@@ -1,10 +1,18 @@
 /// <reference lib="deno.ns" />
 // deno-lint-ignore-file no-explicit-any
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  JOB_TRIGGERS,
+  SERVICE_ROLE,
+  SUPABASE_URL,
+  finishJobRun,
+  isServiceOrUser,
+  isServiceRole,
+  requireEnv,
+  startJobRun,
+} from "../_shared/supabase.ts";
 
 /* ========= Env ========= */
-const SB_URL = Deno.env.get("SB_URL");
-const SERVICE_KEY = Deno.env.get("SB_SERVICE_ROLE_KEY");
 const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
 
 // New: allow custom base URL & model (works with OpenRouter)
@@ -19,13 +27,26 @@ const APP_TITLE = Deno.env.get("APP_TITLE") ?? "SaaS Data Analysis App";
 // CORS: allow configuring specific origin in deployment (fallback to *)
 const CORS_ORIGIN = Deno.env.get("CORS_ORIGIN") ?? "*";
 
-function requireEnv(name: string, v?: string | null) {
-  if (!v || !v.trim()) throw new Error(`Server misconfigured: ${name} not set`);
-  return v;
-}
+// Every run keeps taking pending rows until none are left or this much time is spent
+// (ANALYZE_DRAIN_MS is the older name); a request may ask for less via budgetMs
+const BUDGET_MS = Number(
+  Deno.env.get("ANALYZE_BUDGET_MS") ?? Deno.env.get("ANALYZE_DRAIN_MS") ?? 120_000,
+);
+// Parallel model calls, and the provider's request budget (requests/minute, burst)
+const CONCURRENCY = Math.max(1, Number(Deno.env.get("ANALYZE_CONCURRENCY") ?? 4));
+const RATE_PER_MIN = Math.max(1, Number(Deno.env.get("ANALYZE_RPM") ?? 120));
+const BURST = Math.max(1, Number(Deno.env.get("ANALYZE_BURST") ?? CONCURRENCY));
+const OPENAI_TIMEOUT_MS = 30_000;
+// ids per request: one fetch-apify webhook call's worth (MAX_PAGES x PAGE_SIZE there)
+const MAX_IDS = 2000;
+// A drain hands the rest of the backlog to a follow-up run whenever the budget
+// runs out with rows left; this caps the chain (MAX_DRAIN_RUNS x BUDGET_MS of work)
+const MAX_DRAIN_RUNS = 20;
+// A failing row is retried after 1x, 2x, 4x... this many seconds, and marked
+// failed (dead letter) once it has been claimed this many times
+const MAX_ATTEMPTS = Math.max(1, Number(Deno.env.get("ANALYZE_MAX_ATTEMPTS") ?? 5));
+const RETRY_BASE_S = Math.max(1, Number(Deno.env.get("ANALYZE_RETRY_BASE_S") ?? 60));
 
-const SUPABASE_URL = requireEnv("SB_URL", SB_URL);
-const SERVICE_ROLE = requireEnv("SB_SERVICE_ROLE_KEY", SERVICE_KEY);
 const OPENAI_KEY = requireEnv("OPENAI_API_KEY", OPENAI_API_KEY);
 
 /* ========= CORS helpers ========= */
@@ -51,64 +72,294 @@ function withCors(init: ResponseInit = {}) {
 }
 
 /* ========= Types ========= */
-type RecordRow = { id: string; content: string };
+type RecordRow = { id: string; content: string; inserted_at: string; attempts: number };
 type AiResult = {
   summary: string;
   keywords: string[];
   sentiment: "positive" | "neutral" | "negative";
   sentiment_score: number;
+  /** token usage as reported by the provider, stored with the analysis */
+  usage: AiUsage | null;
 };
+type AiUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
 
 /* ========= Supabase helpers ========= */
-async function supabaseGetPending(limit = 25): Promise<RecordRow[]> {
-  const url = new URL(`${SUPABASE_URL}/rest/v1/records`);
-  url.searchParams.set("select", "id,content");
-  url.searchParams.set("analyzed_at", "is.null");
-  url.searchParams.set("order", "inserted_at.asc");
-  url.searchParams.set("limit", String(limit));
-
-  const r = await fetch(url, {
-    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+async function supabaseRpc<T>(fn: string, args: Record<string, unknown>): Promise<T> {
+  const r = await fetch(`${SUPABASE_URL}/rest/v1/rpc/${fn}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: SERVICE_ROLE,
+      Authorization: `Bearer ${SERVICE_ROLE}`,
+    },
+    body: JSON.stringify(args),
   });
   if (!r.ok) {
-    throw new Error(`Supabase select error ${r.status}: ${await r.text()}`);
+    throw new Error(`Supabase rpc ${fn} error ${r.status}: ${await r.text()}`);
   }
-  return (await r.json()) as RecordRow[];
+  return (await r.json()) as T;
 }
 
-async function supabasePatchAnalysis(id: string, ai: AiResult) {
-  const r = await fetch(`${SUPABASE_URL}/rest/v1/records?id=eq.${id}`, {
+// Atomically marks up to `limit` pending rows as processing by `worker`
+// (FOR UPDATE SKIP LOCKED): a concurrent run gets different rows, never the same
+async function supabaseClaimPending(
+  worker: string,
+  limit: number,
+  leaseSeconds: number,
+  ids?: string[]
+): Promise<RecordRow[]> {
+  const rows = await supabaseRpc<RecordRow[]>("claim_pending_records", {
+    p_worker: worker,
+    p_limit: limit,
+    // only these rows (e.g. just ingested by the fetch-apify webhook)
+    p_ids: ids?.length ? ids : null,
+    p_lease_seconds: leaseSeconds,
+    p_max_attempts: MAX_ATTEMPTS,
+  });
+  return rows.sort(
+    (a, b) => a.inserted_at.localeCompare(b.inserted_at) || a.id.localeCompare(b.id)
+  );
+}
+
+// Back to pending: the rows this run failed on or didn't get to
+function supabaseReleaseClaims(worker: string): Promise<number> {
+  return supabaseRpc<number>("release_record_claims", { p_worker: worker });
+}
+
+/** DataList's filters (see src/data/records.ts analysisFilter) */
+type AnalysisFilter = {
+  sentiment?: string | null;
+  search?: string | null;
+  keywords?: string[];
+  matchAll?: boolean;
+  from?: string | null;
+  to?: string | null;
+  sources?: string[];
+};
+
+const strOrNull = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+const strList = (v: unknown) =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+
+// Analyzed/failed rows (by ids or filter) back to pending; without `force`
+// only those analyzed with another model or prompt version. `dryRun` only counts.
+async function supabaseRequeue(
+  force: boolean,
+  ids?: string[],
+  filter?: AnalysisFilter,
+  dryRun = false
+): Promise<number> {
+  return await supabaseRpc<number>("requeue_records_for_analysis", {
+    p_model: AI_MODEL,
+    p_prompt_version: PROMPT_VERSION,
+    p_force: force,
+    p_ids: ids?.length ? ids : null,
+    p_sentiment: strOrNull(filter?.sentiment),
+    p_search: strOrNull(filter?.search),
+    p_keywords: strList(filter?.keywords),
+    p_match_all: filter?.matchAll !== false,
+    p_from: strOrNull(filter?.from),
+    p_to: strOrNull(filter?.to),
+    p_sources: strList(filter?.sources),
+    p_dry_run: dryRun,
+  });
+}
+
+// Backoff, or the dead letter after MAX_ATTEMPTS; returns the row's new status
+async function supabaseRecordFailure(
+  id: string,
+  worker: string,
+  error: string
+): Promise<"pending" | "failed" | null> {
+  return await supabaseRpc<"pending" | "failed" | null>("record_analysis_failure", {
+    p_id: id,
+    p_worker: worker,
+    p_error: error,
+    p_max_attempts: MAX_ATTEMPTS,
+    p_base_seconds: RETRY_BASE_S,
+  });
+}
+
+// Only while `worker` still holds the claim; false if another run took the row over
+async function supabasePatchSkipped(id: string, worker: string, reason: string): Promise<boolean> {
+  const url = new URL(`${SUPABASE_URL}/rest/v1/records`);
+  url.searchParams.set("id", `eq.${id}`);
+  url.searchParams.set("claimed_by", `eq.${worker}`);
+  url.searchParams.set("analysis_status", "eq.processing");
+  url.searchParams.set("select", "id");
+  const r = await fetch(url, {
     method: "PATCH",
     headers: {
       "Content-Type": "application/json",
       apikey: SERVICE_ROLE,
       Authorization: `Bearer ${SERVICE_ROLE}`,
+      Prefer: "return=representation",
     },
     body: JSON.stringify({
-      summary: ai.summary,
-      keywords: ai.keywords,
-      sentiment: ai.sentiment,
-      sentiment_score: ai.sentiment_score,
-      analyzed_at: new Date().toISOString(),
+      analysis_status: "skipped",
+      last_error: reason,
+      claimed_at: null,
+      claimed_by: null,
+      lease_expires_at: null,
     }),
   });
   if (!r.ok) {
     throw new Error(`Supabase patch error ${r.status}: ${await r.text()}`);
   }
+  return ((await r.json()) as unknown[]).length > 0;
 }
 
+// A new analyses row, made the record's current analysis (earlier ones are
+// kept); null if `worker` lost the claim, and nothing is written then
+async function supabaseSaveAnalysis(
+  id: string,
+  worker: string,
+  ai: AiResult
+): Promise<string | null> {
+  const tokens = (n: unknown) => (typeof n === "number" ? Math.round(n) : null);
+  return await supabaseRpc<string | null>("save_record_analysis", {
+    p_id: id,
+    p_worker: worker,
+    p_model: AI_MODEL,
+    p_prompt_version: PROMPT_VERSION,
+    p_summary: ai.summary,
+    p_keywords: ai.keywords,
+    p_sentiment: ai.sentiment,
+    p_sentiment_score: ai.sentiment_score,
+    p_prompt_tokens: tokens(ai.usage?.prompt_tokens),
+    p_completion_tokens: tokens(ai.usage?.completion_tokens),
+    p_total_tokens: tokens(ai.usage?.total_tokens),
+  });
+}
+
+/* ========= Rate limiter ========= */
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// A provider reset hint further out than this is treated as bogus
+const MAX_PAUSE_MS = 60_000;
+
+/**
+ * Reset hint -> ms from now. Accepts seconds ("12", Retry-After), durations
+ * ("6m0s", "250ms", OpenAI x-ratelimit-reset-*), epoch s/ms (OpenRouter
+ * X-RateLimit-Reset) and HTTP dates.
+ */
+function parseReset(raw: string | null): number | null {
+  const v = raw?.trim();
+  if (!v) return null;
+  if (/^\d+(\.\d+)?$/.test(v)) {
+    const n = Number(v);
+    if (n > 1e12) return n - Date.now();
+    if (n > 1e9) return n * 1000 - Date.now();
+    return n * 1000;
+  }
+  const parts = [...v.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length) {
+    const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 } as const;
+    return parts.reduce((ms, [, n, u]) => ms + Number(n) * unit[u as keyof typeof unit], 0);
+  }
+  const date = Date.parse(v);
+  return isNaN(date) ? null : date - Date.now();
+}
+
+/**
+ * Token bucket shared by the workers: refills RATE_PER_MIN tokens a minute up
+ * to BURST. A 429, or rate-limit headers saying the window is used up, pause
+ * every worker until the provider's reset.
+ */
+function createLimiter(ratePerMin: number, burst: number) {
+  let tokens = burst;
+  let last = Date.now();
+  let pausedUntil = 0;
+  let pauses = 0;
+  let waitedMs = 0;
+
+  const pauseFor = (ms: number) => {
+    const until = Date.now() + Math.min(Math.max(ms, 0), MAX_PAUSE_MS);
+    if (until > pausedUntil) {
+      pausedUntil = until;
+      pauses++;
+    }
+  };
+
+  return {
+    /** Waits for a token; false if that would run past `deadline` */
+    async take(deadline: number): Promise<boolean> {
+      for (;;) {
+        const now = Date.now();
+        tokens = Math.min(burst, tokens + ((now - last) * ratePerMin) / 60_000);
+        last = now;
+        const wait = pausedUntil > now
+          ? pausedUntil - now
+          : tokens >= 1
+          ? 0
+          : ((1 - tokens) * 60_000) / ratePerMin;
+        if (wait <= 0) {
+          tokens -= 1;
+          return true;
+        }
+        if (now + wait > deadline) return false;
+        waitedMs += wait;
+        await sleep(wait);
+      }
+    },
+
+    /** Reads Retry-After / x-ratelimit-* from any provider response */
+    observe(status: number, h: Headers) {
+      const retryAfterMs = h.get("retry-after-ms");
+      const retryAfter = retryAfterMs !== null && /^\d+$/.test(retryAfterMs)
+        ? Number(retryAfterMs)
+        : parseReset(h.get("retry-after"));
+      if (status === 429) {
+        pauseFor(
+          retryAfter ??
+            parseReset(h.get("x-ratelimit-reset-requests") ?? h.get("x-ratelimit-reset")) ??
+            1000,
+        );
+        return;
+      }
+      const remaining = h.get("x-ratelimit-remaining-requests") ?? h.get("x-ratelimit-remaining");
+      if (remaining !== null && Number(remaining) <= 0) {
+        pauseFor(parseReset(h.get("x-ratelimit-reset-requests") ?? h.get("x-ratelimit-reset")) ?? 1000);
+      }
+      // about one request's worth (4000 chars in, short JSON out)
+      const remainingTokens = h.get("x-ratelimit-remaining-tokens");
+      if (remainingTokens !== null && Number(remainingTokens) < 1500) {
+        pauseFor(parseReset(h.get("x-ratelimit-reset-tokens")) ?? 1000);
+      }
+    },
+
+    stats: () => ({ rateLimitPauses: pauses, waitedMs: Math.round(waitedMs) }),
+  };
+}
+
+type Limiter = ReturnType<typeof createLimiter>;
+
 /* ========= OpenAI / OpenRouter ========= */
+// thrown when the limiter can't hand out a token before the run's deadline
+const BUDGET_SPENT = "time budget spent waiting for the rate limit";
+
+// Retry wrapper — do NOT retry on quota errors. 429s wait for the limiter's
+// pause (from the provider's headers), 5xx back off exponentially.
+const isTimeout = (e: unknown) => e instanceof DOMException && e.name === "TimeoutError";
+
+/** Rate limited, down or too slow: the provider's fault, not the record's */
+function isProviderError(e: unknown): boolean {
+  const msg = e instanceof Error ? e.message : String(e);
+  return /^OpenAI (429|5\d{2}):/.test(msg) || isTimeout(e);
+}
 
-// Retry wrapper — do NOT retry on quota errors
 async function callOpenAIWithRetry(
   text: string,
+  limiter: Limiter,
+  deadline: number,
   tries = 3,
   baseDelayMs = 300,
 ): Promise<AiResult> {
   let lastErr: unknown;
   for (let i = 0; i < tries; i++) {
+    if (!(await limiter.take(deadline))) throw new Error(BUDGET_SPENT);
     try {
-      return await callOpenAI(text);
+      return await callOpenAI(text, limiter);
     } catch (e) {
       lastErr = e;
       const msg = String(e instanceof Error ? e.message : e);
@@ -116,11 +367,11 @@ async function callOpenAIWithRetry(
       // Bail immediately on quota/insufficient credits
       if (msg.includes("insufficient_quota")) break;
 
-      // Retry only on 429 (non-quota) or 5xx
-      if (/ (429|5\d{2}):/.test(msg)) {
+      if (/ 429:/.test(msg)) continue;
+      if (/ 5\d{2}:/.test(msg) || isTimeout(e)) {
         const delay =
           baseDelayMs * Math.pow(2, i) + Math.floor(Math.random() * 200);
-        await new Promise((r) => setTimeout(r, delay));
+        await sleep(delay);
         continue;
       }
       break;
@@ -129,14 +380,18 @@ async function callOpenAIWithRetry(
   throw lastErr instanceof Error ? lastErr : new Error(String(lastErr));
 }
 
-async function callOpenAI(text: string): Promise<AiResult> {
-  const sys =
-    `You are a data analyst. Return STRICT JSON with keys:` +
-    ` summary (string, <= 120 words),` +
-    ` keywords (array of 3-8 concise keywords),` +
-    ` sentiment (one of "positive","neutral","negative"),` +
-    ` sentiment_score (float between -1 and 1).`;
+// Stored with every analysis (records.analysis_prompt_version) next to
+// AI_MODEL; bump it whenever SYSTEM_PROMPT changes so older analyses count as
+// outdated for a re-analysis.
+const PROMPT_VERSION = "v1";
+const SYSTEM_PROMPT =
+  `You are a data analyst. Return STRICT JSON with keys:` +
+  ` summary (string, <= 120 words),` +
+  ` keywords (array of 3-8 concise keywords),` +
+  ` sentiment (one of "positive","neutral","negative"),` +
+  ` sentiment_score (float between -1 and 1).`;
 
+async function callOpenAI(text: string, limiter: Limiter): Promise<AiResult> {
   const res = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
     method: "POST",
     headers: {
@@ -149,14 +404,16 @@ async function callOpenAI(text: string): Promise<AiResult> {
     body: JSON.stringify({
       model: AI_MODEL,
       messages: [
-        { role: "system", content: sys },
+        { role: "system", content: SYSTEM_PROMPT },
         { role: "user", content: `Analyze the following text:\n\n${text}` },
       ],
       temperature: 0.2,
       response_format: { type: "json_object" },
     }),
+    signal: AbortSignal.timeout(OPENAI_TIMEOUT_MS),
   });
 
+  limiter.observe(res.status, res.headers);
   if (!res.ok) throw new Error(`OpenAI ${res.status}: ${await res.text()}`);
   const jsonRes = await res.json();
   const content = jsonRes?.choices?.[0]?.message?.content ?? "{}";
@@ -170,7 +427,20 @@ async function callOpenAI(text: string): Promise<AiResult> {
   ) {
     throw new Error(`OpenAI returned unexpected shape: ${content}`);
   }
-  return parsed as AiResult;
+  return { ...parsed, usage: jsonRes?.usage ?? null } as AiResult;
+}
+
+/** Next run of a drain; it records its own job run */
+async function continueDrain(trigger: string, drainRun: number): Promise<void> {
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/analyze-records`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${SERVICE_ROLE}`,
+    },
+    body: JSON.stringify({ trigger, drain: true, drainRun }),
+  });
+  if (!res.ok) console.error("drain continuation error", res.status, await res.text());
 }
 
 /* ========= Handler ========= */
@@ -224,37 +494,230 @@ export const handler = async (req: Request) => {
     CORS_ORIGIN,
   });
 
+  let jobRunId: string | null = null;
   try {
-    const pending = await supabaseGetPending(20);
-    if (!pending.length) {
-      return json({ processed: 0, failed: 0, note: "no pending rows" });
+    // Optional body: { ids?: string[], filter?: AnalysisFilter, force?: boolean,
+    //   preview?: boolean, trigger?: "manual" | "schedule" | "webhook",
+    //   budgetMs?: number, concurrency?: number, drain?: boolean }
+    //   ids (at most MAX_IDS): analyze only these rows; otherwise the oldest pending rows first.
+    //   Re-analysis: ids or a filter requeue the matching rows analyzed by
+    //   another model/prompt. ids + force requeues them even if up to date, and
+    //   only for the service role or a signed-in user: the anon key (all the
+    //   dashboard has) is enough to call this function. force with a filter is refused.
+    //   preview + filter: only count what would be requeued.
+    //   Works until nothing is pending or the time budget (capped at BUDGET_MS) is spent.
+    //   drain (service role; the scheduler): then starts another run with what's
+    //   left, until nothing is pending, the provider quota is hit or MAX_DRAIN_RUNS.
+    const body = (await req.json().catch(() => ({}))) as {
+      ids?: unknown;
+      filter?: unknown;
+      force?: unknown;
+      preview?: unknown;
+      trigger?: unknown;
+      budgetMs?: unknown;
+      concurrency?: unknown;
+      drain?: unknown;
+      drainRun?: unknown;
+    };
+    const ids = Array.isArray(body.ids)
+      ? body.ids.filter(
+          (id): id is string =>
+            typeof id === "string" && /^[0-9a-f-]{36}$/i.test(id)
+        )
+      : undefined;
+    const filter =
+      body.filter && typeof body.filter === "object"
+        ? (body.filter as AnalysisFilter)
+        : undefined;
+    const force = body.force === true;
+    if (ids && ids.length > MAX_IDS) {
+      return json({ error: `at most ${MAX_IDS} ids per request` }, { status: 413 });
+    }
+    if (force && !(await isServiceOrUser(req))) {
+      return json(
+        { error: "force re-analysis needs the service role or a signed-in user" },
+        { status: 403 }
+      );
+    }
+    const drain = body.drain === true;
+    if (drain && !isServiceRole(req)) {
+      return json({ error: "drain needs the service role key" }, { status: 403 });
+    }
+    // 1 for the run the scheduler started, then one more per follow-up
+    const drainRun =
+      typeof body.drainRun === "number" && body.drainRun >= 1 ? Math.floor(body.drainRun) : 1;
+    if (filter && force) {
+      return json(
+        { error: "force re-analysis needs explicit ids, not a filter" },
+        { status: 400 }
+      );
     }
+    if (filter && body.preview === true) {
+      return json({ preview: true, matching: await supabaseRequeue(false, ids, filter, true) });
+    }
+    const trigger = JOB_TRIGGERS.find((t) => t === body.trigger) ?? "manual";
+    const budgetMs =
+      typeof body.budgetMs === "number" && body.budgetMs > 0
+        ? Math.min(body.budgetMs, BUDGET_MS)
+        : BUDGET_MS;
+    const concurrency =
+      typeof body.concurrency === "number" && body.concurrency >= 1
+        ? Math.min(Math.floor(body.concurrency), CONCURRENCY)
+        : CONCURRENCY;
+    const startedAt = Date.now();
+    const deadline = startedAt + budgetMs;
+
+    jobRunId = await startJobRun("analyze", trigger);
+    // claims are tagged with the run; a lease outlives the whole budget
+    const workerId = jobRunId ?? crypto.randomUUID();
+    const leaseSeconds = Math.ceil(budgetMs / 1000) + 120;
+
+    const requeued =
+      filter || ids?.length ? await supabaseRequeue(force, ids, filter) : 0;
 
     let ok = 0,
-      fail = 0;
+      fail = 0,
+      skipped = 0,
+      deadLettered = 0,
+      deferred = 0,
+      lostClaims = 0,
+      batches = 0;
     let firstError: string | null = null;
+    let stoppedOnQuota = false;
+    let stoppedOnBudget = false;
+    // per-record failures, for the Runs tab drill-down (capped)
+    const errors: { id: string; error: string }[] = [];
+    const limiter = createLimiter(RATE_PER_MIN, BURST);
 
-    for (const row of pending) {
-      try {
-        const ai = await callOpenAIWithRetry((row.content || "").slice(0, 4000));
-        await supabasePatchAnalysis(row.id, ai);
-        ok++;
-        await new Promise((r) => setTimeout(r, 120));
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        if (!firstError) firstError = msg;
-        console.error("Analyze error", row.id, msg);
-        fail++;
-
-        // Stop the batch early on quota to save requests
-        if (msg.includes("insufficient_quota") || /OpenAI 429:/.test(msg)) break;
+    // Shared queue of claimed rows; one worker claims more while the others wait
+    const queue: RecordRow[] = [];
+    let exhausted = false;
+    let refill: Promise<void> | null = null;
+    const pageSize = Math.max(20, concurrency * 5);
+
+    const nextRow = async (): Promise<RecordRow | undefined> => {
+      while (!queue.length && !exhausted) {
+        refill ??= supabaseClaimPending(workerId, pageSize, leaseSeconds, ids)
+          .then((page) => {
+            if (page.length) batches++;
+            if (page.length < pageSize) exhausted = true;
+            queue.push(...page);
+          })
+          .finally(() => {
+            refill = null;
+          });
+        await refill;
       }
+      return queue.shift();
+    };
+
+    const worker = async () => {
+      while (!stoppedOnQuota) {
+        if (Date.now() >= deadline) {
+          stoppedOnBudget = true;
+          return;
+        }
+        const row = await nextRow();
+        if (!row) return;
+        const text = (row.content || "").trim();
+        try {
+          if (!text) {
+            if (await supabasePatchSkipped(row.id, workerId, "no content to analyze")) skipped++;
+            else lostClaims++;
+            continue;
+          }
+          const ai = await callOpenAIWithRetry(text.slice(0, 4000), limiter, deadline);
+          // lease ran out and another run claimed the row: its result wins
+          if (await supabaseSaveAnalysis(row.id, workerId, ai)) ok++;
+          else lostClaims++;
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          // not a failure of the row: it stays pending for the next run
+          if (msg === BUDGET_SPENT) {
+            stoppedOnBudget = true;
+            return;
+          }
+          if (!firstError) firstError = msg;
+          console.error("Analyze error", row.id, msg);
+          fail++;
+          if (errors.length < 500) errors.push({ id: row.id, error: msg.slice(0, 500) });
+
+          // Stop every worker on quota/auth errors to save requests; they
+          // aren't the row's fault, so it is released without a backoff
+          if (msg.includes("insufficient_quota") || /OpenAI 40[13]:/.test(msg)) {
+            stoppedOnQuota = true;
+            continue;
+          }
+          // retries exhausted on 429/5xx/timeouts: stays claimed until the
+          // release below, which gives the attempt back
+          if (isProviderError(e)) {
+            deferred++;
+            continue;
+          }
+          const status = await supabaseRecordFailure(row.id, workerId, msg).catch((err) => {
+            console.error("Record failure error", row.id, err instanceof Error ? err.message : String(err));
+            return null;
+          });
+          if (status === "failed") deadLettered++;
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      // failed rows stay claimed until here so this run doesn't retry them
+      await supabaseReleaseClaims(workerId).catch((e) =>
+        console.error("Release claims error", e instanceof Error ? e.message : String(e))
+      );
     }
 
-    return json({ processed: ok, failed: fail, firstError });
+    const elapsedMs = Date.now() - startedAt;
+    const throughput = {
+      elapsedMs,
+      perMinute: elapsedMs > 0 ? Math.round(((ok + fail) * 60_000) / elapsedMs) : 0,
+      concurrency,
+      ...limiter.stats(),
+    };
+
+    await finishJobRun(jobRunId, {
+      status: fail === 0 ? "succeeded" : ok === 0 ? "failed" : "partial",
+      counts: { processed: ok, failed: fail, skipped, deadLettered, deferred, lostClaims, requeued, batches },
+      first_error: firstError,
+      details: { errors, stoppedOnQuota, stoppedOnBudget, throughput },
+    });
+
+    const drainContinues =
+      drain && stoppedOnBudget && !stoppedOnQuota && drainRun < MAX_DRAIN_RUNS;
+    if (drainContinues) {
+      EdgeRuntime.waitUntil(continueDrain(trigger, drainRun + 1));
+    } else if (drain && stoppedOnBudget && !stoppedOnQuota) {
+      console.error(`Drain stopped after ${drainRun} runs with rows still pending`);
+    }
+
+    if (batches === 0) {
+      return json({ processed: 0, failed: 0, requeued, note: "no pending rows", jobRunId });
+    }
+    return json({
+      requeued,
+      processed: ok,
+      failed: fail,
+      skipped,
+      deadLettered,
+      deferred,
+      lostClaims,
+      firstError,
+      batches,
+      stoppedOnQuota,
+      stoppedOnBudget,
+      ...(drain ? { drainRun, drainContinues } : {}),
+      ...throughput,
+      jobRunId,
+    });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     console.error("Fatal handler error:", message);
+    await finishJobRun(jobRunId, { status: "failed", first_error: message });
     return json({ error: message }, { status: 500 });
   }
 };
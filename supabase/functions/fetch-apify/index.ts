@@ -1,150 +1,807 @@
 /// <reference lib="deno.ns" />
 // deno-lint-ignore-file no-explicit-any
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  JOB_TRIGGERS,
+  SERVICE_ROLE,
+  SUPABASE_URL,
+  finishJobRun,
+  isServiceRole,
+  requireEnv,
+  safeEqual,
+  startJobRun,
+} from "../_shared/supabase.ts";
+import type { JobRunUpdate } from "../_shared/supabase.ts";
+import { dedupRows, isStr, upsertRows, validateRow } from "../_shared/rows.ts";
+import type { AnyObj, MappedRow } from "../_shared/rows.ts";
 
 /** ===== Env ===== */
-const SB_URL = Deno.env.get("SB_URL");
-const SERVICE_KEY = Deno.env.get("SB_SERVICE_ROLE_KEY");
 const APIFY_TOKEN = Deno.env.get("APIFY_TOKEN");
+// Optional since sources moved to the `sources` table; used when it is empty
 const APIFY_DATASET_ID = Deno.env.get("APIFY_DATASET_ID");
+// Shared secret for POST /fetch-apify/webhook; the route is off without it
+const APIFY_WEBHOOK_SECRET = Deno.env.get("APIFY_WEBHOOK_SECRET");
+// "true": after a webhook ingest, run analyze-records on the new rows
+const WEBHOOK_ANALYZE = Deno.env.get("WEBHOOK_ANALYZE") === "true";
 
-function requireEnv(name: string, v?: string | null) {
-  if (!v || !v.trim()) throw new Error(`Server misconfigured: ${name} not set`);
-  return v;
-}
-const SUPABASE_URL = requireEnv("SB_URL", SB_URL);
-const SERVICE_ROLE = requireEnv("SB_SERVICE_ROLE_KEY", SERVICE_KEY);
 const APIFY_KEY = requireEnv("APIFY_TOKEN", APIFY_TOKEN);
-const DATASET_ID = requireEnv("APIFY_DATASET_ID", APIFY_DATASET_ID);
-
-/** ===== Helpers ===== */
-type AnyObj = Record<string, unknown>;
-type Row = {
-  apify_item_id?: string | null;
-  source: string;
-  url?: string | null;
-  content: string;
-  created_at: string;
+
+/** Items per Apify request, and how many pages one invocation may read */
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+
+/** ===== Field mapping (sources.field_mapping) ===== */
+const MAPPED_FIELDS = [
+  "content",
+  "url",
+  "source",
+  "created_at",
+  "apify_item_id",
+  "published_at",
+  // not stored: the text hashed for dedup (defaults to content)
+  "dedup_text",
+] as const;
+type MappedField = (typeof MAPPED_FIELDS)[number];
+
+/**
+ * One way to read a field:
+ * - a bare string is a path: "Title", "author.name", "media[0].url"
+ * - `template` fills `{path}` placeholders; a `[...]` section is dropped when
+ *   any placeholder inside it is empty: "{Title} {Description}[ · Source: {Source Name}]"
+ * - `regex` keeps the first capture group (or the whole match), or rewrites
+ *   the value with `replace` ("$1"); no match means the rule yields nothing
+ * - `allStrings` joins every top-level string (minus `exclude`) up to `maxLength` each
+ */
+type Rule =
+  | string
+  | {
+      path?: string;
+      template?: string;
+      allStrings?: boolean;
+      exclude?: string[];
+      maxLength?: number;
+      regex?: string;
+      flags?: string;
+      replace?: string;
+    };
+
+/** Per Row field: a rule, or fallbacks tried in order (first non-empty wins) */
+type FieldMapping = Partial<Record<MappedField, Rule | Rule[]>>;
+
+/** What the original scraper (Title/Description/Source Name/Link) needs; sources override per field */
+const DEFAULT_MAPPING: Required<FieldMapping> = {
+  content: [
+    { template: "{Title} {Description}[ Source: {Source Name}][ · Published: {Published_time}]" },
+    // last resort: other short string fields, skipping the base64 Image
+    { allStrings: true, exclude: ["Image"], maxLength: 2000 },
+  ],
+  url: [
+    { path: "Link", regex: "^https?://.+" },
+    { path: "url", regex: "^https?://.+" },
+  ],
+  source: ["Source Name"],
+  created_at: ["Date"],
+  apify_item_id: ["Id", "id", "_id"],
+  // relative in sample ("3 days ago"), counted back from the item's Date / the run
+  published_at: ["Published_time"],
+  // without the per-source context the content template appends
+  dedup_text: [{ template: "{Title} {Description}" }],
 };
 
-const isStr = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
-const get = (o: AnyObj, k: string) => o?.[k];
+/** "a.b[0].c" (optionally "$."-prefixed) -> value, or undefined */
+function getPath(o: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, "")
+    .split(".")
+    .flatMap((seg) => {
+      const m = /^([^[]*)((?:\[\d+\])*)$/.exec(seg);
+      if (!m) return [seg];
+      const idx = [...m[2].matchAll(/\[(\d+)\]/g)].map((x) => Number(x[1]));
+      return m[1] ? [m[1], ...idx] : idx;
+    });
 
-function stripHtml(s: string) {
-  return s.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+  let cur: unknown = o;
+  for (const s of segments) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as AnyObj)[s as keyof AnyObj];
+  }
+  return cur;
 }
 
-/** Accept both `Link` and `url` (fallback) */
-function pickUrl(o: AnyObj): string | null {
-  const candidates = [get(o, "Link"), get(o, "url")];
-  for (const v of candidates) {
-    if (isStr(v) && v.startsWith("http")) return v;
+/** Strings, numbers and string arrays become text; anything else is empty */
+function asText(v: unknown): string | null {
+  if (isStr(v)) return v.trim();
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  if (Array.isArray(v)) {
+    const parts = v.map(asText).filter((x): x is string => x !== null);
+    return parts.length ? parts.join(", ") : null;
   }
   return null;
 }
 
-/** Prefer "Source Name", else derive hostname from URL */
-function pickSource(o: AnyObj): string {
-  const srcName = get(o, "Source Name");
-  if (isStr(srcName)) return srcName.trim();
+function fillTemplate(o: AnyObj, template: string): string | null {
+  const fill = (part: string) => {
+    let missing = false;
+    const out = part.replace(/\{([^{}]+)\}/g, (_, p: string) => {
+      const v = asText(getPath(o, p.trim()));
+      if (v === null) missing = true;
+      return v ?? "";
+    });
+    return { out, missing };
+  };
+  // optional sections first, then the remaining placeholders
+  const text = template.replace(/\[([^[\]]*)\]/g, (_, section: string) => {
+    const { out, missing } = fill(section);
+    return missing ? "" : out;
+  });
+  const result = fill(text).out.replace(/\s+/g, " ").trim();
+  return result || null;
+}
 
-  const u = pickUrl(o);
-  if (u) {
-    try {
-      return new URL(u).hostname;
-    } catch (_err) {
-      console.log(_err)
+function applyRule(o: AnyObj, rule: Rule): string | null {
+  if (typeof rule === "string") return asText(getPath(o, rule));
+
+  let value: string | null = null;
+  if (rule.template) value = fillTemplate(o, rule.template);
+  else if (rule.allStrings) {
+    const parts = Object.entries(o)
+      .filter(([k]) => !rule.exclude?.includes(k))
+      .map(([, v]) => v)
+      .filter((v): v is string => isStr(v) && v.length <= (rule.maxLength ?? Infinity));
+    value = parts.length ? parts.join(" ") : null;
+  } else if (rule.path) value = asText(getPath(o, rule.path));
+
+  if (value !== null && rule.regex) {
+    const re = new RegExp(rule.regex, rule.flags);
+    if (rule.replace !== undefined) {
+      value = re.test(value) ? value.replace(re, rule.replace) : null;
+    } else {
+      const m = re.exec(value);
+      value = m ? (m[1] ?? m[0]) : null;
     }
   }
-  return "unknown";
+  return isStr(value) ? value.trim() : null;
 }
 
-/** Try to parse `Date` like "2025-11-07 12:03:48"; fallback to now() */
-function pickCreatedAt(o: AnyObj): string {
-  const raw = get(o, "Date");
-  if (isStr(raw) && raw.trim()) {
-    // Attempt ISO-ish parse: "YYYY-MM-DD HH:mm:ss" -> "YYYY-MM-DDTHH:mm:ssZ"
-    const normalized = raw.trim().replace(" ", "T");
-    const iso = /Z$/i.test(normalized) ? normalized : `${normalized}Z`;
-    const d = new Date(iso);
-    if (!isNaN(d.getTime())) return d.toISOString();
+/** Value of one field, and which fallback produced it (for dry runs) */
+function resolveField(
+  o: AnyObj,
+  rules: Rule | Rule[],
+): { value: string | null; ruleIndex: number | null } {
+  const list = Array.isArray(rules) ? rules : [rules];
+  for (let i = 0; i < list.length; i++) {
+    const value = applyRule(o, list[i]);
+    if (value !== null) return { value, ruleIndex: i };
   }
-  // `Published_time` is relative in sample ("3 days ago") -> not reliably parseable
-  return new Date().toISOString();
+  return { value: null, ruleIndex: null };
 }
 
-/** Use `Id`, fallback to common Apify keys */
-function pickApifyId(o: AnyObj): string | null {
-  return (
-    (get(o, "Id") as string | null) ??
-    (get(o, "id") as string | null) ??
-    (get(o, "_id") as string | null) ??
-    null
-  );
+/** Mapping regexes are config, not data; a short cap keeps them reviewable */
+const MAX_REGEX_LENGTH = 200;
+
+/** Config problems that would otherwise surface as silently empty fields */
+function validateMapping(m: unknown): string[] {
+  if (m === null || typeof m !== "object" || Array.isArray(m)) {
+    return ["field_mapping must be an object"];
+  }
+  const errors: string[] = [];
+  for (const [field, rules] of Object.entries(m as AnyObj)) {
+    if (!(MAPPED_FIELDS as readonly string[]).includes(field)) {
+      errors.push(`unknown field "${field}" (expected one of ${MAPPED_FIELDS.join(", ")})`);
+      continue;
+    }
+    const list = Array.isArray(rules) ? rules : [rules];
+    list.forEach((rule, i) => {
+      const at = `${field}[${i}]`;
+      if (typeof rule === "string") {
+        if (!rule.trim()) errors.push(`${at}: empty path`);
+        return;
+      }
+      if (rule === null || typeof rule !== "object") {
+        errors.push(`${at}: rule must be a path string or an object`);
+        return;
+      }
+      const r = rule as Exclude<Rule, string>;
+      if (!r.path && !r.template && !r.allStrings) {
+        errors.push(`${at}: needs one of path, template, allStrings`);
+      }
+      if (r.regex !== undefined) {
+        if (r.regex.length > MAX_REGEX_LENGTH) {
+          errors.push(`${at}: regex longer than ${MAX_REGEX_LENGTH} characters`);
+        }
+        try {
+          new RegExp(r.regex, r.flags);
+        } catch (e) {
+          errors.push(`${at}: bad regex (${e instanceof Error ? e.message : String(e)})`);
+        }
+      }
+    });
+  }
+  return errors;
 }
 
-/** Targeted picker for your dataset (Title, Description, plus a little context) */
-function pickContent(o: AnyObj): string {
-  const parts: string[] = [];
+/** Source mapping over the defaults, field by field */
+function effectiveMapping(m: FieldMapping | null | undefined): Required<FieldMapping> {
+  return { ...DEFAULT_MAPPING, ...(m ?? {}) };
+}
 
-  const title = get(o, "Title");
-  const desc = get(o, "Description");
-  const srcName = get(o, "Source Name");
-  const published = get(o, "Published_time");
+type Normalized = {
+  row: MappedRow | null;
+  /** why a field was dropped or defaulted (shown by dry runs) */
+  warnings: string[];
+  /** index of the fallback rule each field came from; null = none matched */
+  matched: Record<MappedField, number | null>;
+};
 
-  if (isStr(title)) parts.push(title);
-  if (isStr(desc)) parts.push(desc);
+/**
+ * Apply a mapping to one item; `row` is null when there is no content.
+ * `runAt` (the Apify run's time) anchors relative publish times when the item has no date.
+ */
+function normalizeItem(
+  o: AnyObj,
+  m: Required<FieldMapping>,
+  runAt: Date | null = null,
+): Normalized {
+  const content = resolveField(o, m.content);
+  const url = resolveField(o, m.url);
+  const source = resolveField(o, m.source);
+  const createdAt = resolveField(o, m.created_at);
+  const apifyId = resolveField(o, m.apify_item_id);
+  const dedupText = resolveField(o, m.dedup_text);
+  const publishedAt = resolveField(o, m.published_at);
 
-  // Optional helpful context (short)
-  const ctx: string[] = [];
-  if (isStr(srcName)) ctx.push(`Source: ${srcName}`);
-  if (isStr(published)) ctx.push(`Published: ${published}`);
+  const matched = {
+    content: content.ruleIndex,
+    url: url.ruleIndex,
+    source: source.ruleIndex,
+    created_at: createdAt.ruleIndex,
+    apify_item_id: apifyId.ruleIndex,
+    dedup_text: dedupText.ruleIndex,
+    published_at: publishedAt.ruleIndex,
+  };
 
-  if (ctx.length) parts.push(ctx.join(" · "));
+  const check = validateRow(
+    {
+      content: content.value,
+      url: url.value,
+      source: source.value,
+      createdAt: createdAt.value,
+      publishedAt: publishedAt.value,
+      apifyItemId: apifyId.value,
+      dedupText: dedupText.value,
+    },
+    runAt,
+  );
+  return {
+    row: check.row,
+    warnings: check.warnings,
+    matched,
+  };
+}
 
-  // As a last resort, scan other short string fields (excluding huge base64 Image)
-  if (parts.join(" ").trim().length === 0) {
-    for (const [k, v] of Object.entries(o)) {
-      if (k === "Image") continue; // skip base64 blob
-      if (isStr(v) && v.length <= 2000) parts.push(v);
-    }
+/** ===== Sources ===== */
+type SourceConfig = {
+  /** null for the legacy APIFY_DATASET_ID fallback */
+  id: string | null;
+  name: string;
+  kind: "dataset" | "actor";
+  dataset_id: string | null;
+  actor_id: string | null;
+  field_mapping: FieldMapping;
+};
+
+async function loadSources(onlyId?: string): Promise<SourceConfig[]> {
+  const url = new URL(`${SUPABASE_URL}/rest/v1/sources`);
+  url.searchParams.set("select", "id,name,kind,dataset_id,actor_id,field_mapping");
+  url.searchParams.set("enabled", "is.true");
+  // feed sources are read by fetch-feeds
+  url.searchParams.set("kind", "in.(dataset,actor)");
+  if (onlyId) url.searchParams.set("id", `eq.${onlyId}`);
+  url.searchParams.set("order", "created_at.asc");
+  const res = await fetch(url, {
+    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+  });
+  if (!res.ok) throw new Error(`Supabase sources error ${res.status}: ${await res.text()}`);
+  const sources = (await res.json()) as SourceConfig[];
+
+  if (!sources.length && !onlyId && isStr(APIFY_DATASET_ID)) {
+    return [{
+      id: null,
+      name: "APIFY_DATASET_ID",
+      kind: "dataset",
+      dataset_id: APIFY_DATASET_ID,
+      actor_id: null,
+      field_mapping: {},
+    }];
   }
+  return sources;
+}
 
-  const joined = stripHtml(parts.join(" ").trim());
-  return joined.slice(0, 20_000);
+type DatasetRef = {
+  datasetId: string;
+  /** when the run wrote the items; anchors "3 days ago" */
+  runAt: Date | null;
+};
+
+/** Dataset to read: fixed, or the default dataset of the actor's last successful run */
+async function resolveDataset(src: SourceConfig): Promise<DatasetRef> {
+  if (src.kind === "dataset") {
+    const datasetId = requireEnv(`sources.dataset_id (${src.name})`, src.dataset_id);
+    const url = new URL(`https://api.apify.com/v2/datasets/${datasetId}`);
+    url.searchParams.set("token", APIFY_KEY);
+    const res = await fetch(url.toString());
+    if (!res.ok) throw new Error(`Apify dataset lookup error ${res.status}: ${await res.text()}`);
+    // last write ~ the run that filled it
+    const json = (await res.json()) as { data?: { modifiedAt?: string } };
+    const at = json.data?.modifiedAt ? new Date(json.data.modifiedAt) : null;
+    return { datasetId, runAt: at && !isNaN(at.getTime()) ? at : null };
+  }
+
+  const actor = requireEnv(`sources.actor_id (${src.name})`, src.actor_id).replace("/", "~");
+  const url = new URL(`https://api.apify.com/v2/acts/${encodeURIComponent(actor)}/runs/last`);
+  url.searchParams.set("token", APIFY_KEY);
+  url.searchParams.set("status", "SUCCEEDED");
+  const res = await fetch(url.toString());
+  if (!res.ok) throw new Error(`Apify run lookup error ${res.status}: ${await res.text()}`);
+  const json = (await res.json()) as { data?: { defaultDatasetId?: string; startedAt?: string } };
+  const id = json.data?.defaultDatasetId;
+  if (!id) throw new Error(`Actor ${actor} has no successful run with a dataset`);
+  const at = json.data?.startedAt ? new Date(json.data.startedAt) : null;
+  return { datasetId: id, runAt: at && !isNaN(at.getTime()) ? at : null };
 }
 
-async function fetchApifyItems(limit = 100): Promise<AnyObj[]> {
-  const url = new URL(`https://api.apify.com/v2/datasets/${DATASET_ID}/items`);
+/** One page of the dataset starting at `offset`, plus the dataset size */
+async function fetchApifyItems(
+  datasetId: string,
+  offset: number,
+  limit = PAGE_SIZE,
+): Promise<{ items: AnyObj[]; total: number | null }> {
+  const url = new URL(`https://api.apify.com/v2/datasets/${datasetId}/items`);
   url.searchParams.set("token", APIFY_KEY);
-  url.searchParams.set("clean", "true");
+  // not `clean`: it also drops empty items, which would shift our offsets
+  url.searchParams.set("skipHidden", "true");
+  url.searchParams.set("offset", String(offset));
   url.searchParams.set("limit", String(limit));
   const res = await fetch(url.toString());
   if (!res.ok) throw new Error(`Apify error ${res.status}: ${await res.text()}`);
-  return (await res.json()) as AnyObj[];
+  // a missing header is "unknown", not 0 (Number(null) would say the dataset is empty)
+  const header = res.headers.get("X-Apify-Pagination-Total")?.trim();
+  const total = header ? Number(header) : NaN;
+  return {
+    items: (await res.json()) as AnyObj[],
+    total: Number.isFinite(total) ? total : null,
+  };
 }
 
-async function upsertRows(rows: Row[]): Promise<number> {
-  const res = await fetch(`${SUPABASE_URL}/rest/v1/records`, {
+/** ===== Cursor (ingest_cursors) ===== */
+async function getCursor(datasetId: string): Promise<number> {
+  const url = new URL(`${SUPABASE_URL}/rest/v1/ingest_cursors`);
+  url.searchParams.set("select", "item_offset");
+  url.searchParams.set("dataset_id", `eq.${datasetId}`);
+  const res = await fetch(url, {
+    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+  });
+  if (!res.ok) throw new Error(`Supabase cursor read error ${res.status}: ${await res.text()}`);
+  const rows = (await res.json()) as { item_offset: number }[];
+  return rows[0]?.item_offset ?? 0;
+}
+
+async function saveCursor(datasetId: string, offset: number) {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/ingest_cursors`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       apikey: SERVICE_ROLE,
       Authorization: `Bearer ${SERVICE_ROLE}`,
-      Prefer: "resolution=merge-duplicates,return=representation",
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify({
+      dataset_id: datasetId,
+      item_offset: offset,
+      updated_at: new Date().toISOString(),
+    }),
+  });
+  if (!res.ok) throw new Error(`Supabase cursor write error ${res.status}: ${await res.text()}`);
+}
+
+/** ===== Ingest one source ===== */
+type SourceResult = {
+  sourceId: string | null;
+  name: string;
+  datasetId: string | null;
+  pagesProcessed: number;
+  fetchedCount: number;
+  normalizedCount: number;
+  insertedCount: number;
+  /** dedup: re-scrapes dropped, and copies stored with duplicate_of */
+  skippedDuplicates: number;
+  linkedDuplicates: number;
+  startOffset: number;
+  offset: number;
+  datasetTotal: number | null;
+  done: boolean | null;
+  error?: string;
+  note?: string;
+  sampleKeys?: string[];
+};
+
+type IngestOptions = {
+  maxPages: number;
+  reset?: boolean;
+  /** already known (webhook); otherwise resolved from the source */
+  dataset?: DatasetRef;
+  /** ids of the rows each page stored */
+  onInserted?: (ids: string[]) => void;
+};
+
+/** Per-source numbers that are summed into totals */
+const COUNTED = [
+  "pagesProcessed",
+  "fetchedCount",
+  "normalizedCount",
+  "insertedCount",
+  "skippedDuplicates",
+  "linkedDuplicates",
+] as const satisfies readonly (keyof SourceResult)[];
+
+/** job_runs row for one or more source results */
+function jobRunOf(results: SourceResult[]): JobRunUpdate {
+  const failed = results.filter((r) => r.error);
+  return {
+    status: !failed.length ? "succeeded" : failed.length === results.length ? "failed" : "partial",
+    counts: Object.fromEntries(COUNTED.map((k) => [k, results.reduce((n, r) => n + r[k], 0)])),
+    first_error: failed[0]?.error ?? null,
+    details: { sources: results },
+  };
+}
+
+async function ingestSource(
+  src: SourceConfig,
+  { maxPages, reset = false, dataset, onInserted }: IngestOptions,
+): Promise<SourceResult> {
+  const result: SourceResult = {
+    sourceId: src.id,
+    name: src.name,
+    datasetId: null,
+    pagesProcessed: 0,
+    fetchedCount: 0,
+    normalizedCount: 0,
+    insertedCount: 0,
+    skippedDuplicates: 0,
+    linkedDuplicates: 0,
+    startOffset: 0,
+    offset: 0,
+    datasetTotal: null,
+    done: null,
+  };
+
+  try {
+    const mappingErrors = validateMapping(src.field_mapping ?? {});
+    if (mappingErrors.length) throw new Error(`Invalid field_mapping: ${mappingErrors.join("; ")}`);
+    const mapping = effectiveMapping(src.field_mapping);
+
+    const { datasetId, runAt } = dataset ?? (await resolveDataset(src));
+    result.datasetId = datasetId;
+    result.startOffset = result.offset = reset ? 0 : await getCursor(datasetId);
+    let sample: AnyObj | undefined;
+    // a short (or empty) page means we reached the end, whatever the total says
+    let reachedEnd = false;
+
+    while (result.pagesProcessed < maxPages) {
+      const { items, total } = await fetchApifyItems(datasetId, result.offset);
+      result.datasetTotal = total;
+      if (!items.length) {
+        reachedEnd = true;
+        break;
+      }
+      sample ??= items[0];
+
+      const mapped: MappedRow[] = [];
+      for (const it of items) {
+        const { row } = normalizeItem(it, mapping, runAt);
+        if (row) mapped.push(row);
+      }
+      const { rows, decisions } = await dedupRows(mapped, src.id);
+      if (rows.length) {
+        result.insertedCount += await upsertRows(rows);
+        onInserted?.(rows.flatMap((r) => (r.id ? [r.id] : [])));
+      }
+      for (const d of decisions) {
+        if (d.action === "skip") result.skippedDuplicates++;
+        if (d.action === "link") result.linkedDuplicates++;
+      }
+
+      // advance only after the page is stored, so a failed run resumes here
+      result.offset += items.length;
+      await saveCursor(datasetId, result.offset);
+
+      result.pagesProcessed++;
+      result.fetchedCount += items.length;
+      result.normalizedCount += mapped.length;
+      if (items.length < PAGE_SIZE) {
+        reachedEnd = true;
+        break;
+      }
+    }
+
+    result.done =
+      result.datasetTotal !== null ? result.offset >= result.datasetTotal : reachedEnd || null;
+    if (result.fetchedCount > 0 && result.normalizedCount === 0) {
+      // diagnostics to see the incoming keys (and fix the field mapping)
+      result.note = "no non-empty content found";
+      result.sampleKeys = Object.keys(sample ?? {}).slice(0, 50);
+    }
+  } catch (e) {
+    result.error = e instanceof Error ? e.message : String(e);
+    console.error("Source error", src.name, result.error);
+  }
+  return result;
+}
+
+/** ===== Dry run ===== */
+const DRY_RUN_DEFAULT = 3;
+const DRY_RUN_MAX = 20;
+
+/** Long strings (e.g. base64 images) are cut so the echoed items stay readable */
+function preview(v: unknown): unknown {
+  if (typeof v === "string") return v.length > 500 ? `${v.slice(0, 500)}… (${v.length} chars)` : v;
+  if (Array.isArray(v)) return v.map(preview);
+  if (v && typeof v === "object") {
+    return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, preview(x)]));
+  }
+  return v;
+}
+
+/**
+ * Show how items would be normalized, without writing rows or moving the cursor.
+ * Items come from the body, or from the source's dataset at its current cursor.
+ * A `mapping` in the body is tried instead of the stored one.
+ */
+async function dryRun(body: AnyObj): Promise<Response> {
+  const limit =
+    typeof body.limit === "number" && body.limit > 0
+      ? Math.min(body.limit, DRY_RUN_MAX)
+      : DRY_RUN_DEFAULT;
+
+  let src: SourceConfig | null = null;
+  let items: AnyObj[];
+  let datasetId: string | null = null;
+  let runAt: Date | null = null;
+  let offset: number | null = null;
+
+  if (Array.isArray(body.items)) {
+    items = (body.items as AnyObj[]).slice(0, DRY_RUN_MAX);
+    if (isStr(body.sourceId)) src = (await loadSources(body.sourceId))[0] ?? null;
+  } else {
+    src = (await loadSources(isStr(body.sourceId) ? body.sourceId : undefined))[0] ?? null;
+    if (!src) return Response.json({ error: "no enabled sources configured" }, { status: 400 });
+    const ref = await resolveDataset(src);
+    datasetId = ref.datasetId;
+    runAt = ref.runAt;
+    offset = await getCursor(ref.datasetId);
+    items = (await fetchApifyItems(ref.datasetId, offset, limit)).items;
+    // fully ingested: show the start of the dataset instead of nothing
+    if (!items.length && offset > 0) {
+      offset = 0;
+      items = (await fetchApifyItems(ref.datasetId, 0, limit)).items;
+    }
+  }
+
+  const stored = body.mapping !== undefined ? body.mapping : src?.field_mapping ?? {};
+  const errors = validateMapping(stored);
+  if (errors.length) return Response.json({ dryRun: true, errors }, { status: 400 });
+  const mapping = effectiveMapping(stored as FieldMapping);
+
+  return Response.json({
+    dryRun: true,
+    source: src ? { id: src.id, name: src.name } : null,
+    datasetId,
+    offset,
+    mapping,
+    samples: await Promise.all(
+      items.map(async (item) => {
+        const { row, matched, warnings } = normalizeItem(item, mapping, runAt);
+        // read-only: shows what dedup would do against stored records
+        const dedup = row ? await dedupRows([row], src?.id ?? null) : null;
+        return {
+          item: preview(item),
+          row: dedup?.rows[0] ?? (row ? { ...row, source_id: src?.id ?? null } : null),
+          matched,
+          warnings,
+          ...(dedup ? { dedup: dedup.decisions[0] } : { skipped: "no non-empty content" }),
+        };
+      }),
+    ),
+  });
+}
+
+/** ===== Webhook (Apify ACTOR.RUN.SUCCEEDED) ===== */
+type ApifyWebhookPayload = {
+  eventType?: string;
+  eventData?: { actorId?: string; actorRunId?: string };
+  resource?: {
+    id?: string;
+    actId?: string;
+    startedAt?: string;
+    defaultDatasetId?: string;
+  };
+};
+
+/** The run's default dataset: from the payload, else from the run itself */
+async function datasetOfRun(payload: ApifyWebhookPayload): Promise<DatasetRef> {
+  const run = payload.resource ?? {};
+  const runId = run.id ?? payload.eventData?.actorRunId;
+  let datasetId = run.defaultDatasetId;
+  let startedAt = run.startedAt;
+
+  if (!datasetId) {
+    if (!runId) throw new Error("Webhook payload has no run id");
+    const url = new URL(`https://api.apify.com/v2/actor-runs/${runId}`);
+    url.searchParams.set("token", APIFY_KEY);
+    const res = await fetch(url.toString());
+    if (!res.ok) throw new Error(`Apify run lookup error ${res.status}: ${await res.text()}`);
+    const json = (await res.json()) as { data?: { defaultDatasetId?: string; startedAt?: string } };
+    datasetId = json.data?.defaultDatasetId;
+    startedAt ??= json.data?.startedAt;
+  }
+  if (!datasetId) throw new Error(`Run ${runId} has no default dataset`);
+
+  const at = startedAt ? new Date(startedAt) : null;
+  return { datasetId, runAt: at && !isNaN(at.getTime()) ? at : null };
+}
+
+/**
+ * Source config for the run: `?sourceId=` on the webhook URL, else the enabled
+ * actor source whose actor_id is the run's actor (id or `username~name`).
+ * Unknown actors are ingested with the default mapping and no source_id.
+ */
+async function sourceOfRun(actId: string, pinnedId: string | null): Promise<SourceConfig> {
+  if (pinnedId) {
+    const [src] = await loadSources(pinnedId);
+    if (!src) throw new Error(`Source ${pinnedId} not found or disabled`);
+    return src;
+  }
+
+  const actors = (await loadSources()).filter((s) => s.kind === "actor" && s.actor_id);
+  const normalized = (id: string) => id.replace("/", "~");
+  let match = actors.find((s) => s.actor_id === actId);
+  if (!match && actors.length) {
+    const url = new URL(`https://api.apify.com/v2/acts/${actId}`);
+    url.searchParams.set("token", APIFY_KEY);
+    const res = await fetch(url.toString());
+    if (res.ok) {
+      const { data } = (await res.json()) as { data?: { username?: string; name?: string } };
+      const fullName = data?.username && data.name ? `${data.username}~${data.name}` : null;
+      match = actors.find((s) => fullName && normalized(s.actor_id ?? "") === fullName);
+    }
+  }
+
+  return (
+    match ?? {
+      id: null,
+      name: `actor:${actId}`,
+      kind: "actor",
+      dataset_id: null,
+      actor_id: actId,
+      field_mapping: {},
+    }
+  );
+}
+
+async function callAnalyzeRecords(body: AnyObj): Promise<boolean> {
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/analyze-records`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${SERVICE_ROLE}`,
     },
-    body: JSON.stringify(rows),
+    body: JSON.stringify(body),
   });
-  if (!res.ok) throw new Error(`Supabase upsert error ${res.status}: ${await res.text()}`);
+  if (!res.ok) console.error("analyze-records error", res.status, await res.text());
+  return res.ok;
+}
+
+/**
+ * Analyze the new rows in one analyze-records call (the ids travel in its
+ * claim RPC's body, so no chunking). Its budget stays under the edge
+ * wall-clock limit this waitUntil runs in; rows it doesn't reach stay pending
+ * for the scheduled run.
+ */
+const WEBHOOK_ANALYZE_BUDGET_MS = 100_000;
+
+async function analyzeRows(ids: string[]): Promise<void> {
+  await callAnalyzeRecords({ ids, trigger: "webhook", budgetMs: WEBHOOK_ANALYZE_BUDGET_MS });
+}
+
+/**
+ * A run with more than MAX_PAGES pages is ingested by a chain of webhook
+ * calls: each one stores its pages, then posts the same event to itself and
+ * resumes from the cursor. The chain is capped so a dataset that keeps
+ * growing can't keep it going forever.
+ */
+const MAX_WEBHOOK_HOPS = 50;
+
+async function continueWebhook(payload: ApifyWebhookPayload, url: URL, hop: number) {
+  const next = new URL(`${SUPABASE_URL}/functions/v1/fetch-apify/webhook`);
+  next.search = url.search;
+  next.searchParams.set("hop", String(hop));
+  const res = await fetch(next, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${SERVICE_ROLE}`,
+      "X-Webhook-Secret": APIFY_WEBHOOK_SECRET ?? "",
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) console.error("webhook continuation error", res.status, await res.text());
+}
+
+/**
+ * Apify webhook target. Configure the webhook with the shared secret in an
+ * `X-Webhook-Secret` header (and the anon key as Bearer, for verify_jwt).
+ * Non-success events are acknowledged and ignored so Apify doesn't retry them.
+ */
+async function webhook(req: Request, url: URL): Promise<Response> {
+  if (!isStr(APIFY_WEBHOOK_SECRET)) {
+    return Response.json({ error: "webhook not configured" }, { status: 503 });
+  }
+  if (!safeEqual(req.headers.get("x-webhook-secret") ?? "", APIFY_WEBHOOK_SECRET)) {
+    return Response.json({ error: "invalid webhook secret" }, { status: 401 });
+  }
 
-  const text = await res.text();
-  if (!text) return rows.length;
+  const payload = (await req.json().catch(() => null)) as ApifyWebhookPayload | null;
+  if (!payload) return Response.json({ error: "invalid JSON payload" }, { status: 400 });
+  if (payload.eventType !== "ACTOR.RUN.SUCCEEDED") {
+    return Response.json({ ignored: true, eventType: payload.eventType ?? null });
+  }
+
+  const actId = payload.resource?.actId ?? payload.eventData?.actorId;
+  if (!actId) return Response.json({ error: "payload has no actor id" }, { status: 400 });
+
+  const jobRunId = await startJobRun("ingest", "webhook");
+  const insertedIds: string[] = [];
+  let result: SourceResult;
   try {
-    const json = JSON.parse(text);
-    return Array.isArray(json) ? json.length : rows.length;
-  } catch {
-    return rows.length;
+    const src = await sourceOfRun(actId, url.searchParams.get("sourceId"));
+    const dataset = await datasetOfRun(payload);
+    result = await ingestSource(src, {
+      maxPages: MAX_PAGES,
+      dataset,
+      onInserted: (ids) => insertedIds.push(...ids),
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    await finishJobRun(jobRunId, { status: "failed", first_error: msg });
+    throw e;
+  }
+  // stopped on the page cap with more items (or an unknown rest) left
+  const hop = Number(url.searchParams.get("hop")) || 0;
+  const more = !result.error && result.done !== true && result.pagesProcessed >= MAX_PAGES;
+  const continued = more && hop < MAX_WEBHOOK_HOPS;
+  const run = jobRunOf([result]);
+  if (more && !continued) {
+    run.status = "partial";
+    run.first_error =
+      `stopped at item ${result.offset} after ${hop + 1} webhook calls; ` +
+      "redeliver the webhook to resume there";
+  }
+  await finishJobRun(jobRunId, run);
+  // 5xx makes Apify retry; the cursor resumes where this attempt stopped
+  if (result.error) return Response.json(result, { status: 502 });
+  if (continued) EdgeRuntime.waitUntil(continueWebhook(payload, url, hop + 1));
+
+  const analyze = WEBHOOK_ANALYZE || url.searchParams.get("analyze") === "1";
+  if (analyze && insertedIds.length) {
+    // don't hold Apify's request open for the model calls
+    EdgeRuntime.waitUntil(analyzeRows(insertedIds));
   }
+  return Response.json({
+    ...result,
+    analyzeQueued: analyze ? insertedIds.length : 0,
+    continued,
+    partial: more && !continued,
+  });
 }
 
 /** ===== Handler ===== */
@@ -152,40 +809,63 @@ export const handler = async (req: Request) => {
   try {
     if (req.method !== "POST") return new Response("Method Not Allowed", { status: 405 });
 
-    const items = await fetchApifyItems(100);
+    const url = new URL(req.url);
+    if (url.pathname.endsWith("/webhook")) return await webhook(req, url);
+
+    // Optional body: { sourceId?: string, maxPages?: number, reset?: boolean,
+    //   trigger?: "manual" | "schedule", analyze?: "drain" }
+    // Dry run: { dryRun: true, sourceId?, mapping?, items?, limit? }; service
+    // role only, since it runs caller-supplied regexes and echoes dataset items
+    const body = (await req.json().catch(() => ({}))) as AnyObj;
+    if (body.analyze === "drain" && !isServiceRole(req)) {
+      return Response.json({ error: "drain needs the service role key" }, { status: 403 });
+    }
+    if (body.dryRun === true) {
+      if (!isServiceRole(req)) {
+        return Response.json({ error: "dry runs need the service role key" }, { status: 403 });
+      }
+      return await dryRun(body);
+    }
+
+    const maxPages =
+      typeof body.maxPages === "number" && body.maxPages > 0
+        ? Math.min(body.maxPages, MAX_PAGES)
+        : MAX_PAGES;
+    const trigger = JOB_TRIGGERS.find((t) => t === body.trigger) ?? "manual";
 
-    const rows: Row[] = [];
-    for (const it of items) {
-      const content = pickContent(it);
-      if (!content) continue;
+    const jobRunId = await startJobRun("ingest", trigger);
+    const results: SourceResult[] = [];
+    try {
+      const sources = await loadSources(isStr(body.sourceId) ? body.sourceId : undefined);
+      if (!sources.length) {
+        await finishJobRun(jobRunId, { status: "failed", first_error: "no enabled sources configured" });
+        return Response.json({ error: "no enabled sources configured" }, { status: 400 });
+      }
 
-      rows.push({
-        apify_item_id: pickApifyId(it),
-        source: pickSource(it),
-        url: pickUrl(it),
-        content,
-        created_at: pickCreatedAt(it),
-      });
+      // sequential: pages of one source are already rate-limited by Apify
+      for (const src of sources) {
+        results.push(await ingestSource(src, { maxPages, reset: body.reset === true }));
+      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      await finishJobRun(jobRunId, { status: "failed", first_error: msg });
+      throw e;
     }
 
-    if (!rows.length) {
-      // Return some diagnostics to see the incoming keys
-      const sample = items[0] ?? {};
-      return Response.json({
-        insertedCount: 0,
-        fetchedCount: items.length,
-        normalizedCount: 0,
-        note: "no non-empty content found",
-        sampleKeys: Object.keys(sample).slice(0, 50),
-        sampleItem: sample,
-      });
+    const run = jobRunOf(results);
+    await finishJobRun(jobRunId, run);
+
+    // scheduled pipeline: ingestion, then analyze-records works off the whole
+    // backlog in as many runs as it takes (up to its MAX_DRAIN_RUNS)
+    if (body.analyze === "drain") {
+      EdgeRuntime.waitUntil(callAnalyzeRecords({ trigger, drain: true }));
     }
 
-    const insertedCount = await upsertRows(rows);
     return Response.json({
-      insertedCount,
-      fetchedCount: items.length,
-      normalizedCount: rows.length,
+      ...run.counts,
+      failedSources: results.filter((r) => r.error).length,
+      jobRunId,
+      sources: results,
     });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
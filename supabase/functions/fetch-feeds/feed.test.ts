@@ -0,0 +1,112 @@
+// deno test --allow-read supabase/functions/fetch-feeds
+import assert from "node:assert/strict";
+import { parseFeed } from "./feed.ts";
+
+const fixture = (name: string) =>
+  parseFeed(Deno.readTextFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+
+Deno.test("rss: channel and entries", () => {
+  const feed = fixture("rss.xml");
+  assert.equal(feed.format, "rss");
+  assert.equal(feed.title, "Markets & Business");
+  assert.equal(feed.entries.length, 5);
+});
+
+Deno.test("rss: CDATA title, escaped-markup description, opaque guid", () => {
+  const [e] = fixture("rss.xml").entries;
+  assert.deepEqual(e, {
+    guid: "example-news-10001",
+    title: "Stocks rally as inflation cools",
+    description:
+      "Major indexes closed higher on Tuesday after consumer prices rose less than expected.",
+    link: "https://www.example-news.com/markets/stocks-rally-inflation-cools?utm_source=rss",
+    published: "2026-10-14T18:05:00.000Z",
+    source: null,
+  });
+});
+
+Deno.test("rss: description wins over content:encoded, offset pubDate to UTC", () => {
+  const e = fixture("rss.xml").entries[1];
+  assert.equal(e.guid, "https://www.example-news.com/tech/chipmaker-beats-estimates");
+  assert.equal(e.description, "Revenue grew 24% year over year, driven by data-center demand.");
+  assert.equal(e.published, "2026-10-13T13:30:00.000Z");
+});
+
+Deno.test("rss: no guid falls back to the link; dc:date and <source>", () => {
+  const e = fixture("rss.xml").entries[2];
+  assert.equal(e.guid, "https://www.reuters.com/business/energy/oil-slips-demand-worries-2026-10-13/");
+  assert.equal(e.published, "2026-10-13T07:15:00.000Z");
+  assert.equal(e.source, "Reuters");
+});
+
+Deno.test("rss: repeated guid and empty item are kept for the caller to skip", () => {
+  const entries = fixture("rss.xml").entries;
+  assert.equal(entries[3].guid, entries[0].guid);
+  assert.deepEqual(entries[4], {
+    guid: "example-news-10002",
+    title: null,
+    description: null,
+    link: null,
+    published: null,
+    source: null,
+  });
+});
+
+Deno.test("rss: a permalink guid doubles as the link, isPermaLink=false does not", () => {
+  const feed = parseFeed(`<rss><channel>
+    <item><title>a</title><guid>https://example.com/a</guid></item>
+    <item><title>b</title><guid isPermaLink="false">https://example.com/b</guid></item>
+  </channel></rss>`);
+  assert.equal(feed.entries[0].link, "https://example.com/a");
+  assert.equal(feed.entries[1].link, null);
+  assert.equal(feed.entries[1].guid, "https://example.com/b");
+});
+
+Deno.test("rdf: rdf:about is the guid", () => {
+  const feed = parseFeed(`<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <item rdf:about="https://example.com/x"><title>x</title><link>https://example.com/x?ref=rss</link></item>
+  </rdf:RDF>`);
+  assert.equal(feed.format, "rdf");
+  assert.equal(feed.entries[0].guid, "https://example.com/x");
+  assert.equal(feed.entries[0].link, "https://example.com/x?ref=rss");
+});
+
+Deno.test("atom: alternate link, summary, published over updated", () => {
+  const feed = fixture("atom.xml");
+  assert.equal(feed.format, "atom");
+  assert.equal(feed.title, "Example Wire");
+  assert.deepEqual(feed.entries[0], {
+    guid: "tag:wire.example.org,2026:central-bank-holds",
+    title: "Central bank holds rates steady",
+    description:
+      'Policy makers kept the benchmark rate at 3.25%, citing "persistent" services inflation.',
+    link: "https://wire.example.org/2026/10/central-bank-holds",
+    published: "2026-10-14T08:00:00.000Z",
+    source: null,
+  });
+});
+
+Deno.test("atom: <source> gives the publisher without leaking its id/title", () => {
+  const e = fixture("atom.xml").entries[1];
+  assert.equal(e.guid, "tag:wire.example.org,2026:retail-sales");
+  assert.equal(e.title, "Retail sales surprise to the upside");
+  assert.equal(e.description, "Sales rose 0.8% in September, beating forecasts.");
+  assert.equal(e.link, "https://wire.example.org/2026/10/retail-sales");
+  assert.equal(e.published, "2026-10-13T16:45:00.000Z");
+  assert.equal(e.source, "CNBC");
+});
+
+Deno.test("html text is decoded once: escaped entities stay text", () => {
+  const feed = parseFeed(`<rss><channel><item>
+    <description>x &amp;lt;b&amp;gt; y &lt;i&gt;z&lt;/i&gt;</description>
+    <content:encoded><![CDATA[ignored]]></content:encoded>
+  </item><item>
+    <description><![CDATA[<p>It&#8217;s &amp;lt;fine&amp;gt;</p>]]></description>
+  </item></channel></rss>`);
+  assert.equal(feed.entries[0].description, "x &lt;b&gt; y z");
+  assert.equal(feed.entries[1].description, "It’s &lt;fine&gt;");
+});
+
+Deno.test("not a feed", () => {
+  assert.throws(() => parseFeed("<html><body>nope</body></html>"), /not an RSS or Atom feed/);
+});
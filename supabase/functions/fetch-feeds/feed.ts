@@ -0,0 +1,186 @@
+// Minimal RSS 2.0 / RSS 1.0 (RDF) / Atom reader. Feeds are small and regular
+// enough that pulling a few known elements out with regexes is sufficient, and
+// it keeps the function free of an XML/DOM dependency.
+
+export type FeedFormat = "rss" | "rdf" | "atom";
+
+export type FeedEntry = {
+  /** <guid> / <id> / rdf:about, falling back to the link */
+  guid: string | null;
+  /** title and description as plain text (tags stripped, entities decoded) */
+  title: string | null;
+  description: string | null;
+  link: string | null;
+  /** ISO 8601 when parseable, otherwise the raw text */
+  published: string | null;
+  /** per-entry publisher, e.g. <source> in aggregated feeds */
+  source: string | null;
+};
+
+export type Feed = {
+  format: FeedFormat;
+  title: string | null;
+  entries: FeedEntry[];
+};
+
+/** ===== XML helpers ===== */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X"
+        ? parseInt(ref.slice(2), 16)
+        : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? m;
+  });
+}
+
+const CDATA = /(<!\[CDATA\[[\s\S]*?\]\]>)/;
+const stripTags = (s: string) => s.replace(/<[^>]*>/g, " ");
+
+/** Element text: CDATA sections verbatim, entities decoded everywhere else */
+function textOf(inner: string): string {
+  return inner
+    .split(CDATA)
+    .map((part) =>
+      part.startsWith("<![CDATA[") ? part.slice(9, -3) : decodeEntities(part)
+    )
+    .join("")
+    .trim();
+}
+
+/**
+ * HTML-typed element (escaped markup or CDATA) -> plain text. Each part is
+ * decoded exactly once: escaped markup becomes tags that are stripped, while
+ * escaped entities (`&amp;lt;b&amp;gt;`) stay text instead of becoming a tag.
+ */
+function plain(inner: string | null): string | null {
+  if (!inner) return null;
+  return inner
+    .split(CDATA)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? decodeEntities(stripTags(part.slice(9, -3)))
+        : stripTags(decodeEntities(part))
+    )
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim() || null;
+}
+
+const escapeName = (name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Every `<name ...>inner</name>` (or self-closing `<name .../>`) in `xml` */
+function elements(xml: string, name: string): { attrs: string; inner: string }[] {
+  const n = escapeName(name);
+  const re = new RegExp(`<${n}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</${n}\\s*>)`, "gi");
+  return [...xml.matchAll(re)].map((m) => ({ attrs: m[1] ?? "", inner: m[2] ?? "" }));
+}
+
+/** Raw inner XML of the first non-empty element among `names`, in that order */
+function firstInner(xml: string, ...names: string[]): string | null {
+  for (const name of names) {
+    for (const el of elements(xml, name)) {
+      if (textOf(el.inner)) return el.inner;
+    }
+  }
+  return null;
+}
+
+/** Text of the first non-empty element among `names`, in that order */
+function firstText(xml: string, ...names: string[]): string | null {
+  const inner = firstInner(xml, ...names);
+  return inner === null ? null : textOf(inner);
+}
+
+function attr(attrs: string, name: string): string | null {
+  const m = new RegExp(`(?:^|\\s)${escapeName(name)}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i")
+    .exec(attrs);
+  return m ? decodeEntities(m[1] ?? m[2] ?? "") : null;
+}
+
+/** RFC 822 (RSS) and ISO 8601 (Atom, dc:date) -> ISO; anything else as-is */
+function toIso(raw: string | null): string | null {
+  if (!raw) return null;
+  const t = Date.parse(raw);
+  return isNaN(t) ? raw : new Date(t).toISOString();
+}
+
+/** ===== Entries ===== */
+function rssEntry(xml: string, about: string | null): FeedEntry {
+  const guidEl = elements(xml, "guid")[0];
+  const guid = guidEl ? textOf(guidEl.inner) || null : null;
+  // <guid isPermaLink="true"> (the default) doubles as the link
+  const permalink = guidEl && attr(guidEl.attrs, "isPermaLink")?.toLowerCase() !== "false" &&
+      guid && /^https?:\/\//i.test(guid)
+    ? guid
+    : null;
+  const link = firstText(xml, "link") ?? permalink;
+  return {
+    guid: guid ?? about ?? link,
+    title: plain(firstInner(xml, "title")),
+    description: plain(firstInner(xml, "description", "content:encoded")),
+    link,
+    published: toIso(firstText(xml, "pubDate", "dc:date")),
+    source: firstText(xml, "source", "dc:publisher"),
+  };
+}
+
+function atomEntry(xml: string): FeedEntry {
+  // an entry's <source> carries its own <title>/<id>; read it apart from the entry
+  const sourceEl = elements(xml, "source")[0];
+  const own = sourceEl ? xml.replace(/<source(?=[\s>])[\s\S]*?<\/source\s*>/i, "") : xml;
+
+  const links = elements(own, "link").map((l) => ({
+    rel: attr(l.attrs, "rel") ?? "alternate",
+    href: attr(l.attrs, "href"),
+  }));
+  const link = links.find((l) => l.rel === "alternate" && l.href)?.href ??
+    links.find((l) => l.href)?.href ??
+    null;
+  return {
+    guid: firstText(own, "id") ?? link,
+    title: plain(firstInner(own, "title")),
+    description: plain(firstInner(own, "summary", "content")),
+    link,
+    published: toIso(firstText(own, "published", "updated")),
+    source: sourceEl ? firstText(sourceEl.inner, "title") : null,
+  };
+}
+
+/** ===== Parse ===== */
+export function parseFeed(xml: string): Feed {
+  const doc = xml.replace(/<!--[\s\S]*?-->/g, "");
+
+  if (/<feed(?=[\s>])/i.test(doc)) {
+    const entries = elements(doc, "entry");
+    const head = doc.replace(/<entry(?=[\s>])[\s\S]*?<\/entry\s*>/gi, "");
+    return {
+      format: "atom",
+      title: firstText(head, "title"),
+      entries: entries.map((e) => atomEntry(e.inner)),
+    };
+  }
+
+  if (/<rdf:RDF(?=[\s>])/i.test(doc) || /<rss(?=[\s>])/i.test(doc) || /<channel(?=[\s>])/i.test(doc)) {
+    const items = elements(doc, "item");
+    const head = doc.replace(/<item(?=[\s>])[\s\S]*?<\/item\s*>/gi, "");
+    return {
+      format: /<rdf:RDF(?=[\s>])/i.test(doc) ? "rdf" : "rss",
+      title: firstText(head, "title"),
+      entries: items.map((i) => rssEntry(i.inner, attr(i.attrs, "rdf:about"))),
+    };
+  }
+
+  throw new Error("not an RSS or Atom feed");
+}
@@ -0,0 +1,276 @@
+/// <reference lib="deno.ns" />
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { JOB_TRIGGERS, SERVICE_ROLE, SUPABASE_URL, finishJobRun, startJobRun } from "../_shared/supabase.ts";
+import type { JobRunUpdate } from "../_shared/supabase.ts";
+import { dedupRows, isStr, pgQuote, upsertRows, validateRow } from "../_shared/rows.ts";
+import type { AnyObj, MappedRow, RowCheck } from "../_shared/rows.ts";
+import { parseFeed } from "./feed.ts";
+import type { Feed, FeedEntry } from "./feed.ts";
+
+// Polls the RSS/Atom sources (sources.kind = 'feed') and stores new entries as
+// records, next to fetch-apify. Entries are deduped by GUID per source, then by
+// content hash / canonical URL like every other ingestion path.
+//
+// Dry run against a local fixture (nothing is written):
+//   curl -X POST "$SB_URL/functions/v1/fetch-feeds" -H "Authorization: Bearer $KEY" \
+//     -H "Content-Type: application/rss+xml" --data-binary @fixtures/rss.xml
+
+/** ===== Env ===== */
+const FEED_TIMEOUT_MS = 20_000;
+/** Entries read per feed and run; feeds rarely carry more */
+const MAX_ENTRIES = 200;
+
+/** ===== Sources ===== */
+type FeedSource = {
+  id: string;
+  name: string;
+  feed_url: string;
+};
+
+async function loadFeedSources(onlyId?: string): Promise<FeedSource[]> {
+  const url = new URL(`${SUPABASE_URL}/rest/v1/sources`);
+  url.searchParams.set("select", "id,name,feed_url");
+  url.searchParams.set("kind", "eq.feed");
+  url.searchParams.set("enabled", "is.true");
+  if (onlyId) url.searchParams.set("id", `eq.${onlyId}`);
+  url.searchParams.set("order", "created_at.asc");
+  const res = await fetch(url, {
+    headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+  });
+  if (!res.ok) throw new Error(`Supabase sources error ${res.status}: ${await res.text()}`);
+  return (await res.json()) as FeedSource[];
+}
+
+async function fetchFeed(feedUrl: string): Promise<Feed> {
+  const res = await fetch(feedUrl, {
+    headers: {
+      Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5",
+      "User-Agent": "fetch-feeds (Supabase Edge Function)",
+    },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Feed error ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  return parseFeed(await res.text());
+}
+
+/** ===== Mapping ===== */
+/** Title + description as content, the entry's publisher or else the source name */
+function entryRow(e: FeedEntry, sourceName: string): RowCheck {
+  const text = [e.title, e.description].filter(isStr).join(" ");
+  return validateRow(
+    {
+      content: text,
+      url: e.link,
+      source: e.source ?? sourceName,
+      publishedAt: e.published,
+    },
+    null,
+    sourceName,
+  );
+}
+
+/** ===== GUID dedup ===== */
+const GUID_CHUNK = 50;
+
+/** GUIDs of `guids` already stored for the source */
+async function knownGuids(sourceId: string, guids: string[]): Promise<Set<string>> {
+  const known = new Set<string>();
+  for (let i = 0; i < guids.length; i += GUID_CHUNK) {
+    const chunk = guids.slice(i, i + GUID_CHUNK);
+    const url = new URL(`${SUPABASE_URL}/rest/v1/records`);
+    url.searchParams.set("select", "feed_guid");
+    url.searchParams.set("source_id", `eq.${sourceId}`);
+    url.searchParams.set("feed_guid", `in.(${chunk.map(pgQuote).join(",")})`);
+    const res = await fetch(url, {
+      headers: { apikey: SERVICE_ROLE, Authorization: `Bearer ${SERVICE_ROLE}` },
+    });
+    if (!res.ok) throw new Error(`Supabase feed_guid lookup error ${res.status}: ${await res.text()}`);
+    for (const r of (await res.json()) as { feed_guid: string }[]) known.add(r.feed_guid);
+  }
+  return known;
+}
+
+type EntryPlan = {
+  entry: FeedEntry;
+  /** already stored, or repeated earlier in the same feed */
+  knownGuid: boolean;
+  check: RowCheck | null;
+};
+
+/** Map the entries and flag the GUIDs seen before; `sourceId` null skips the lookup */
+async function planEntries(feed: Feed, sourceId: string | null, sourceName: string) {
+  const entries = feed.entries.slice(0, MAX_ENTRIES);
+  const guids = [...new Set(entries.map((e) => e.guid).filter(isStr))];
+  const known = sourceId ? await knownGuids(sourceId, guids) : new Set<string>();
+
+  const seen = new Set<string>();
+  const plans: EntryPlan[] = entries.map((entry) => {
+    const repeated = !!entry.guid && (known.has(entry.guid) || seen.has(entry.guid));
+    if (entry.guid) seen.add(entry.guid);
+    return { entry, knownGuid: repeated, check: repeated ? null : entryRow(entry, sourceName) };
+  });
+
+  const mapped: MappedRow[] = plans.flatMap((p) =>
+    p.check?.row ? [{ ...p.check.row, feed_guid: p.entry.guid }] : []
+  );
+  return { plans, mapped };
+}
+
+/** ===== Ingest ===== */
+type FeedResult = {
+  sourceId: string;
+  name: string;
+  /** shown in the Runs tab's dataset column */
+  datasetId: string;
+  fetchedCount: number;
+  normalizedCount: number;
+  insertedCount: number;
+  /** known GUIDs and same-source re-posts, and copies stored with duplicate_of */
+  skippedDuplicates: number;
+  linkedDuplicates: number;
+  error?: string;
+  note?: string;
+};
+
+const COUNTED = [
+  "fetchedCount",
+  "normalizedCount",
+  "insertedCount",
+  "skippedDuplicates",
+  "linkedDuplicates",
+] as const satisfies readonly (keyof FeedResult)[];
+
+function jobRunOf(results: FeedResult[]): JobRunUpdate {
+  const failed = results.filter((r) => r.error);
+  return {
+    status: !failed.length ? "succeeded" : failed.length === results.length ? "failed" : "partial",
+    counts: Object.fromEntries(COUNTED.map((k) => [k, results.reduce((n, r) => n + r[k], 0)])),
+    first_error: failed[0]?.error ?? null,
+    details: { sources: results },
+  };
+}
+
+async function ingestFeed(src: FeedSource): Promise<FeedResult> {
+  const result: FeedResult = {
+    sourceId: src.id,
+    name: src.name,
+    datasetId: src.feed_url,
+    fetchedCount: 0,
+    normalizedCount: 0,
+    insertedCount: 0,
+    skippedDuplicates: 0,
+    linkedDuplicates: 0,
+  };
+
+  try {
+    const feed = await fetchFeed(src.feed_url);
+    const { plans, mapped } = await planEntries(feed, src.id, src.name);
+    result.fetchedCount = plans.length;
+    result.normalizedCount = mapped.length;
+    result.skippedDuplicates = plans.filter((p) => p.knownGuid).length;
+
+    const { rows, decisions } = await dedupRows(mapped, src.id);
+    if (rows.length) result.insertedCount = await upsertRows(rows);
+    for (const d of decisions) {
+      if (d.action === "skip") result.skippedDuplicates++;
+      if (d.action === "link") result.linkedDuplicates++;
+    }
+    if (!feed.entries.length) result.note = "feed has no entries";
+  } catch (e) {
+    result.error = e instanceof Error ? e.message : String(e);
+    console.error("Feed error", src.name, result.error);
+  }
+  return result;
+}
+
+/** ===== Dry run ===== */
+// { dryRun: true, sourceId? | xml? } or a raw XML body; reads and maps, writes nothing.
+// No arbitrary `url`: the anon key is enough to call this, and the function
+// would fetch whatever it was given from inside the project.
+async function dryRun(body: AnyObj): Promise<Response> {
+  let feed: Feed;
+  let sourceId: string | null = null;
+  let sourceName = isStr(body.name) ? body.name : null;
+  try {
+    if (isStr(body.xml)) {
+      feed = parseFeed(body.xml);
+    } else if (isStr(body.sourceId)) {
+      const [src] = await loadFeedSources(body.sourceId);
+      if (!src) return Response.json({ error: "no enabled feed source with that id" }, { status: 404 });
+      sourceId = src.id;
+      sourceName = src.name;
+      feed = await fetchFeed(src.feed_url);
+    } else {
+      return Response.json({ error: "dry run needs sourceId or xml" }, { status: 400 });
+    }
+  } catch (e) {
+    return Response.json({ error: e instanceof Error ? e.message : String(e) }, { status: 422 });
+  }
+
+  const { plans, mapped } = await planEntries(feed, sourceId, sourceName ?? feed.title ?? "feed");
+  const { decisions } = await dedupRows(mapped, sourceId);
+  let next = 0;
+  return Response.json({
+    dryRun: true,
+    format: feed.format,
+    title: feed.title,
+    entries: feed.entries.length,
+    valid: mapped.length,
+    samples: plans.map((p) => ({
+      entry: p.entry,
+      knownGuid: p.knownGuid,
+      row: p.check?.row ?? null,
+      warnings: p.check?.warnings ?? [],
+      error: p.check?.error ?? null,
+      dedup: p.check?.row ? decisions[next++] : null,
+    })),
+  });
+}
+
+/** ===== Handler ===== */
+export const handler = async (req: Request) => {
+  try {
+    if (req.method !== "POST") return new Response("Method Not Allowed", { status: 405 });
+
+    // a posted feed document is always a dry run
+    if (/xml/i.test(req.headers.get("Content-Type") ?? "")) {
+      return await dryRun({ dryRun: true, xml: await req.text() });
+    }
+
+    // Optional body: { sourceId?: string, trigger?: "manual" | "schedule" }
+    // Dry run: { dryRun: true, sourceId? | xml?, name? }
+    const body = (await req.json().catch(() => ({}))) as AnyObj;
+    if (body.dryRun === true) return await dryRun(body);
+
+    const trigger = JOB_TRIGGERS.find((t) => t === body.trigger) ?? "manual";
+    const sources = await loadFeedSources(isStr(body.sourceId) ? body.sourceId : undefined);
+    // no feeds configured is normal for the scheduled call: don't record a run
+    if (!sources.length) return Response.json({ feeds: 0, sources: [] });
+
+    const jobRunId = await startJobRun("ingest", trigger);
+    const results: FeedResult[] = [];
+    try {
+      // sequential: one CPU budget per invocation, and feeds are quick
+      for (const src of sources) results.push(await ingestFeed(src));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      await finishJobRun(jobRunId, { status: "failed", first_error: msg });
+      throw e;
+    }
+
+    const run = jobRunOf(results);
+    await finishJobRun(jobRunId, run);
+    return Response.json({
+      ...run.counts,
+      failedSources: results.filter((r) => r.error).length,
+      jobRunId,
+      sources: results,
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("Fatal handler error:", msg);
+    return Response.json({ error: msg }, { status: 500 });
+  }
+};
+
+Deno.serve(handler);
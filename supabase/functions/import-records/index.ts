@@ -0,0 +1,145 @@
+/// <reference lib="deno.ns" />
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { finishJobRun, startJobRun } from "../_shared/supabase.ts";
+import { dedupRows, isStr, upsertRows, validateRow } from "../_shared/rows.ts";
+import type { AnyObj, MappedRow } from "../_shared/rows.ts";
+
+// Imports rows from the dashboard's Import dialog.
+//
+// Access: intentionally open to anyone holding the project's anon key. The
+// dashboard has no sign-in, so the anon key (shipped in the browser bundle) is
+// the only credential it has; verify_jwt only proves the caller has that key.
+// Writes go through the service role, but every row is validated and deduped
+// exactly like fetch-apify's, and a request carries at most MAX_ROWS rows.
+// Nothing limits how many requests a caller makes: once the dashboard gets
+// real users, set verify_jwt to require their session and check the role here
+// (e.g. reject `role = anon` claims) instead.
+
+/** ===== Env ===== */
+// CORS: the Import dialog calls this from the browser
+const CORS_ORIGIN = Deno.env.get("CORS_ORIGIN") ?? "*";
+
+/** Rows per request; the dialog sends bigger files in chunks */
+const MAX_ROWS = 500;
+
+/** ===== CORS helpers ===== */
+const corsHeaders: HeadersInit = {
+  "Access-Control-Allow-Origin": CORS_ORIGIN,
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function json(body: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers ?? {});
+  headers.set("Content-Type", "application/json");
+  for (const [k, v] of Object.entries(corsHeaders)) headers.set(k, v);
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+/** ===== Validation ===== */
+/** Already mapped by the dialog: column -> field happens client-side */
+type ImportRow = {
+  source?: unknown;
+  url?: unknown;
+  content?: unknown;
+  created_at?: unknown;
+};
+
+const text = (v: unknown): string | null =>
+  isStr(v) ? v : typeof v === "number" ? String(v) : null;
+
+type RowIssue = { index: number; error?: string; warnings?: string[] };
+
+/** Same checks as fetch-apify (shared validateRow); `index` is the row's position in the request */
+function validateImport(
+  rows: ImportRow[],
+  defaultSource: string,
+): { valid: MappedRow[]; issues: RowIssue[] } {
+  const valid: MappedRow[] = [];
+  const issues: RowIssue[] = [];
+  rows.forEach((r, index) => {
+    const check = validateRow(
+      {
+        content: text(r.content),
+        url: text(r.url),
+        source: text(r.source),
+        createdAt: text(r.created_at),
+      },
+      null,
+      defaultSource,
+    );
+    if (check.row) valid.push(check.row);
+    if (check.error || check.warnings.length) {
+      issues.push({
+        index,
+        ...(check.error ? { error: check.error } : {}),
+        ...(check.warnings.length ? { warnings: check.warnings } : {}),
+      });
+    }
+  });
+  return { valid, issues };
+}
+
+/** ===== Handler ===== */
+// Body: { rows: ImportRow[], source?: string (for rows without one), dryRun?: boolean }
+export const handler = async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method Not Allowed" }, { status: 405 });
+
+  const body = (await req.json().catch(() => null)) as AnyObj | null;
+  if (!body || !Array.isArray(body.rows)) {
+    return json({ error: "body must be { rows: [...] }" }, { status: 400 });
+  }
+  if (body.rows.length > MAX_ROWS) {
+    return json({ error: `at most ${MAX_ROWS} rows per request` }, { status: 413 });
+  }
+  const defaultSource = isStr(body.source) ? body.source.trim() : "import";
+  const { valid, issues } = validateImport(body.rows as ImportRow[], defaultSource);
+
+  try {
+    if (body.dryRun === true) {
+      // read-only: normalized rows plus what dedup would do with them
+      const { decisions } = await dedupRows(valid, null);
+      return json({
+        dryRun: true,
+        received: body.rows.length,
+        valid: valid.length,
+        issues,
+        rows: valid.map((r, i) => ({ ...r, dedup: decisions[i] })),
+      });
+    }
+
+    const jobRunId = await startJobRun("ingest", "manual");
+    try {
+      const { rows, decisions } = await dedupRows(valid, null);
+      const insertedCount = rows.length ? await upsertRows(rows) : 0;
+      const counts = {
+        fetchedCount: body.rows.length,
+        normalizedCount: valid.length,
+        insertedCount,
+        skippedDuplicates: decisions.filter((d) => d.action === "skip").length,
+        linkedDuplicates: decisions.filter((d) => d.action === "link").length,
+      };
+      const invalid = issues.filter((i) => i.error);
+      await finishJobRun(jobRunId, {
+        status: invalid.length ? "partial" : "succeeded",
+        counts,
+        first_error: invalid[0] ? `row ${invalid[0].index + 1}: ${invalid[0].error}` : null,
+        details: {
+          sources: [{ sourceId: null, name: `import (${defaultSource})`, datasetId: null, ...counts }],
+        },
+      });
+      return json({ ...counts, issues, jobRunId });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      await finishJobRun(jobRunId, { status: "failed", first_error: msg });
+      throw e;
+    }
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error("Fatal handler error:", msg);
+    return json({ error: msg }, { status: 500 });
+  }
+};
+
+Deno.serve(handler);
@@ -0,0 +1,15 @@
+-- Star ratings given in the dashboard (RecordCard -> StarRating)
+alter table public.records
+  add column if not exists user_rating smallint
+  check (user_rating between 1 and 5);
+
+-- The dashboard talks to PostgREST with the anon key: allow it to set the
+-- rating column only, never the scraped content or the analysis.
+revoke update on public.records from anon, authenticated;
+grant update (user_rating) on public.records to anon, authenticated;
+
+drop policy if exists "records: rate" on public.records;
+create policy "records: rate" on public.records
+  for update to anon, authenticated
+  using (true)
+  with check (true);
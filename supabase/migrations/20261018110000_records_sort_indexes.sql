@@ -0,0 +1,11 @@
+-- One index per DataList sort option: order=<col>.desc.nullslast,id.desc
+create index if not exists records_created_at_id_idx
+  on public.records (created_at desc, id desc);
+create index if not exists records_user_rating_id_idx
+  on public.records (user_rating desc nulls last, id desc);
+create index if not exists records_sentiment_score_id_idx
+  on public.records (sentiment_score desc nulls last, id desc);
+
+-- sentiment=eq.* filter
+create index if not exists records_sentiment_idx
+  on public.records (sentiment);
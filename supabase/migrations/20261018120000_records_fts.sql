@@ -0,0 +1,23 @@
+-- Full-text search over content, summary and keywords (DataList search box,
+-- queried as fts=wfts(english).<terms>).
+
+-- array_to_string() is only STABLE, which generated columns don't accept.
+create or replace function public.keywords_to_text(keywords text[])
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select coalesce(array_to_string(keywords, ' '), '')
+$$;
+
+alter table public.records
+  add column if not exists fts tsvector
+  generated always as (
+    setweight(to_tsvector('english', public.keywords_to_text(keywords)), 'A') ||
+    setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  ) stored;
+
+create index if not exists records_fts_idx
+  on public.records using gin (fts);
@@ -0,0 +1,34 @@
+-- Keyword filter (keywords=cs.{..} / keywords=ov.{..}) and the DataList facet
+-- sidebar: most frequent keywords across the current result set.
+create index if not exists records_keywords_idx
+  on public.records using gin (keywords);
+
+-- Arguments mirror the filters fetchRecords() sends to PostgREST.
+create or replace function public.keyword_facets(
+  p_sentiment text default null,
+  p_search text default null,
+  p_keywords text[] default null,
+  p_match_all boolean default true,
+  p_limit integer default 30
+)
+returns table (keyword text, count bigint)
+language sql
+stable
+as $$
+  select k as keyword, count(*) as count
+  from public.records r
+  cross join lateral unnest(r.keywords) as k
+  where (p_sentiment is null or r.sentiment = p_sentiment)
+    and (p_search is null or r.fts @@ websearch_to_tsquery('english', p_search))
+    and (
+      coalesce(cardinality(p_keywords), 0) = 0
+      or (p_match_all and r.keywords @> p_keywords)
+      or (not p_match_all and r.keywords && p_keywords)
+    )
+  group by k
+  order by count(*) desc, k
+  limit p_limit
+$$;
+
+grant execute on function public.keyword_facets(text, text, text[], boolean, integer)
+  to anon, authenticated;
@@ -0,0 +1,57 @@
+-- Date-range (created_at) and source filters for DataList.
+create index if not exists records_source_idx
+  on public.records (source);
+
+-- Options for the source multi-select.
+create or replace function public.record_sources()
+returns table (source text, count bigint)
+language sql
+stable
+as $$
+  select r.source, count(*) as count
+  from public.records r
+  group by r.source
+  order by r.source
+$$;
+
+grant execute on function public.record_sources() to anon, authenticated;
+
+-- keyword_facets() gains the new filters; drop the old overload so PostgREST
+-- doesn't have two candidates to choose from.
+drop function if exists public.keyword_facets(text, text, text[], boolean, integer);
+
+create or replace function public.keyword_facets(
+  p_sentiment text default null,
+  p_search text default null,
+  p_keywords text[] default null,
+  p_match_all boolean default true,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_sources text[] default null,
+  p_limit integer default 30
+)
+returns table (keyword text, count bigint)
+language sql
+stable
+as $$
+  select k as keyword, count(*) as count
+  from public.records r
+  cross join lateral unnest(r.keywords) as k
+  where (p_sentiment is null or r.sentiment = p_sentiment)
+    and (p_search is null or r.fts @@ websearch_to_tsquery('english', p_search))
+    and (
+      coalesce(cardinality(p_keywords), 0) = 0
+      or (p_match_all and r.keywords @> p_keywords)
+      or (not p_match_all and r.keywords && p_keywords)
+    )
+    and (p_from is null or r.created_at >= p_from)
+    and (p_to is null or r.created_at < p_to)
+    and (coalesce(cardinality(p_sources), 0) = 0 or r.source = any (p_sources))
+  group by k
+  order by count(*) desc, k
+  limit p_limit
+$$;
+
+grant execute on function public.keyword_facets(
+  text, text, text[], boolean, timestamptz, timestamptz, text[], integer
+) to anon, authenticated;
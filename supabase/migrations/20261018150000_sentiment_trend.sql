@@ -0,0 +1,37 @@
+-- Sentiment over time for the System Health trend panel.
+create or replace function public.sentiment_trend(
+  p_bucket text default 'day',
+  p_from timestamptz default now() - interval '30 days'
+)
+returns table (
+  bucket timestamptz,
+  positive bigint,
+  neutral bigint,
+  negative bigint,
+  avg_score double precision
+)
+language plpgsql
+stable
+as $$
+begin
+  if p_bucket not in ('day', 'week') then
+    raise exception 'sentiment_trend: unsupported bucket %', p_bucket;
+  end if;
+
+  return query
+    select
+      date_trunc(p_bucket, r.created_at, 'UTC') as bucket,
+      count(*) filter (where r.sentiment = 'positive') as positive,
+      count(*) filter (where r.sentiment = 'neutral') as neutral,
+      count(*) filter (where r.sentiment = 'negative') as negative,
+      avg(r.sentiment_score)::double precision as avg_score
+    from public.records r
+    where r.created_at >= p_from
+      and r.analyzed_at is not null
+    group by 1
+    order by 1;
+end;
+$$;
+
+grant execute on function public.sentiment_trend(text, timestamptz)
+  to anon, authenticated;
@@ -0,0 +1,66 @@
+-- Per-source breakdown on the System Health tab.
+create or replace function public.source_stats(p_top_keywords integer default 5)
+returns table (
+  source text,
+  total bigint,
+  positive bigint,
+  neutral bigint,
+  negative bigint,
+  avg_score double precision,
+  avg_confidence double precision,
+  avg_rating double precision,
+  rated bigint,
+  top_keywords text[]
+)
+language sql
+stable
+as $$
+  with per_source as (
+    select
+      r.source,
+      count(*) as total,
+      count(*) filter (where r.sentiment = 'positive') as positive,
+      count(*) filter (where r.sentiment = 'neutral') as neutral,
+      count(*) filter (where r.sentiment = 'negative') as negative,
+      avg(r.sentiment_score)::double precision as avg_score,
+      -- same -1..1 -> 0..1 mapping the UI uses for "confidence"
+      avg((r.sentiment_score + 1) / 2)::double precision as avg_confidence,
+      avg(r.user_rating)::double precision as avg_rating,
+      count(r.user_rating) as rated
+    from public.records r
+    group by r.source
+  ),
+  ranked_keywords as (
+    select
+      r.source,
+      k as keyword,
+      row_number() over (
+        partition by r.source order by count(*) desc, k
+      ) as rank
+    from public.records r
+    cross join lateral unnest(r.keywords) as k
+    group by r.source, k
+  ),
+  top as (
+    select source, array_agg(keyword order by rank) as top_keywords
+    from ranked_keywords
+    where rank <= p_top_keywords
+    group by source
+  )
+  select
+    p.source,
+    p.total,
+    p.positive,
+    p.neutral,
+    p.negative,
+    p.avg_score,
+    p.avg_confidence,
+    p.avg_rating,
+    p.rated,
+    coalesce(t.top_keywords, '{}') as top_keywords
+  from per_source p
+  left join top t on t.source = p.source
+  order by p.total desc, p.source
+$$;
+
+grant execute on function public.source_stats(integer) to anon, authenticated;
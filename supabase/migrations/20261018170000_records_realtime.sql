@@ -0,0 +1,13 @@
+-- Stream inserts/updates on records to the dashboard (Supabase Realtime).
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'records'
+  ) then
+    alter publication supabase_realtime add table public.records;
+  end if;
+end;
+$$;
@@ -0,0 +1,10 @@
+-- fetch-apify reads each dataset incrementally: how far it got last time.
+create table if not exists public.ingest_cursors (
+  dataset_id text primary key,
+  -- number of dataset items already read (Apify `offset`)
+  item_offset integer not null default 0 check (item_offset >= 0),
+  updated_at timestamptz not null default now()
+);
+
+-- Only the service role (Edge Functions) touches this table.
+alter table public.ingest_cursors enable row level security;
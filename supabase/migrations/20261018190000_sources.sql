@@ -0,0 +1,27 @@
+-- Ingestion sources for fetch-apify: fixed Apify datasets, or actors whose
+-- latest successful run's default dataset is read.
+create table if not exists public.sources (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  kind text not null check (kind in ('dataset', 'actor')),
+  dataset_id text,
+  -- `username~actor-name` or the actor id
+  actor_id text,
+  -- Item keys to read, per Row field; missing fields use the built-in pickers.
+  -- e.g. {"content": ["Title", "Description"], "url": ["Link"], "source": ["Source Name"]}
+  field_mapping jsonb not null default '{}'::jsonb,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint sources_target_chk check (
+    (kind = 'dataset' and dataset_id is not null)
+    or (kind = 'actor' and actor_id is not null)
+  )
+);
+
+alter table public.sources enable row level security;
+
+-- Which source config each ingested record came from.
+alter table public.records
+  add column if not exists source_id uuid references public.sources (id) on delete set null;
+
+create index if not exists records_source_id_idx on public.records (source_id);
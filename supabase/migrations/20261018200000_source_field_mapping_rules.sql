@@ -0,0 +1,6 @@
+-- field_mapping holds declarative rules (see fetch-apify: Field mapping).
+-- Each Row field maps to one rule or a list of fallbacks; first non-empty wins.
+-- A rule is a path string ("author.name", "media[0].url") or an object with
+-- path | template | allStrings, plus optional regex/flags/replace.
+comment on column public.sources.field_mapping is
+  'Per-field ingestion rules, e.g. {"content": [{"template": "{Title} {Description}[ · {Source Name}]"}, "text"], "url": {"path": "Link", "regex": "^https?://.+"}}. Unset fields use the built-in defaults. Try changes with fetch-apify {"dryRun": true, "mapping": ...}.';
@@ -0,0 +1,12 @@
+-- Dedup keys written by fetch-apify: sha256 of the normalized text and the URL
+-- without tracking params. Rows ingested before this have neither and are not
+-- matched against.
+alter table public.records
+  add column if not exists content_hash text,
+  add column if not exists canonical_url text,
+  -- syndicated copy from another source -> the first record seen
+  add column if not exists duplicate_of uuid references public.records (id) on delete set null;
+
+create index if not exists records_content_hash_idx on public.records (content_hash);
+create index if not exists records_canonical_url_idx on public.records (canonical_url);
+create index if not exists records_duplicate_of_idx on public.records (duplicate_of);
@@ -0,0 +1,13 @@
+-- Publish time parsed by fetch-apify (absolute, or relative like "3 days ago"
+-- counted back from the scrape). created_at stays the item's scrape/ingest time.
+alter table public.records
+  add column if not exists published_at timestamptz;
+
+-- DataList "date" sort: publish time when known, else created_at.
+-- A stored column so keyset paging can order and compare on it.
+alter table public.records
+  add column if not exists effective_date timestamptz
+  generated always as (coalesce(published_at, created_at)) stored;
+
+create index if not exists records_effective_date_id_idx
+  on public.records (effective_date desc, id desc);
@@ -0,0 +1,76 @@
+-- One row per fetch-apify / analyze-records execution (manual, scheduled or webhook).
+create table if not exists public.job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job text not null check (job in ('ingest', 'analyze')),
+  trigger text not null default 'manual' check (trigger in ('manual', 'schedule', 'webhook')),
+  status text not null default 'running'
+    check (status in ('running', 'succeeded', 'partial', 'failed')),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  -- ingest: pagesProcessed/fetchedCount/normalizedCount/insertedCount/...
+  -- analyze: processed/failed/batches
+  counts jsonb not null default '{}'::jsonb,
+  first_error text,
+  -- ingest: per-source results; analyze: per-record errors
+  details jsonb
+);
+
+alter table public.job_runs enable row level security;
+
+create index if not exists job_runs_started_at_idx on public.job_runs (started_at desc);
+
+/* ---- Scheduler: pg_cron -> fetch-apify (ingest, then drain the analysis backlog) ---- */
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+-- Needs two Vault secrets (not in migrations, they differ per project):
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+create or replace function public.run_scheduled_pipeline()
+returns bigint
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_url text;
+  v_key text;
+begin
+  select decrypted_secret into v_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into v_key from vault.decrypted_secrets where name = 'service_role_key';
+  if v_url is null or v_key is null then
+    raise notice 'run_scheduled_pipeline: vault secrets project_url / service_role_key not set';
+    return null;
+  end if;
+
+  return net.http_post(
+    url := v_url || '/functions/v1/fetch-apify',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := jsonb_build_object('trigger', 'schedule', 'analyze', 'drain'),
+    timeout_milliseconds := 300000
+  );
+end;
+$$;
+
+revoke execute on function public.run_scheduled_pipeline() from public, anon, authenticated;
+
+-- (Re)schedule with a cron expression; the job name keeps it a single job.
+--   select public.schedule_pipeline('*/15 * * * *');
+--   select cron.unschedule('ingest-and-analyze');   -- turn it off
+create or replace function public.schedule_pipeline(p_schedule text default '*/30 * * * *')
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  select cron.schedule('ingest-and-analyze', p_schedule, 'select public.run_scheduled_pipeline()');
+$$;
+
+revoke execute on function public.schedule_pipeline(text) from public, anon, authenticated;
+
+-- Not scheduled here: local resets and preview branches apply migrations too.
+-- Turn it on once, in the project that should run it (after the Vault secrets):
+--   select public.schedule_pipeline();
@@ -0,0 +1,9 @@
+-- Runs tab: the dashboard reads job history with the anon key (writes stay
+-- with the Edge Functions' service role).
+grant select on public.job_runs to anon, authenticated;
+
+drop policy if exists "job runs are readable" on public.job_runs;
+create policy "job runs are readable"
+  on public.job_runs for select
+  to anon, authenticated
+  using (true);
@@ -0,0 +1,68 @@
+-- RSS/Atom feeds as a third source kind, read by fetch-feeds.
+alter table public.sources
+  add column if not exists feed_url text;
+
+alter table public.sources drop constraint if exists sources_kind_check;
+alter table public.sources
+  add constraint sources_kind_check check (kind in ('dataset', 'actor', 'feed'));
+
+alter table public.sources drop constraint if exists sources_target_chk;
+alter table public.sources
+  add constraint sources_target_chk check (
+    (kind = 'dataset' and dataset_id is not null)
+    or (kind = 'actor' and actor_id is not null)
+    or (kind = 'feed' and feed_url is not null)
+  );
+
+-- Entry <guid> (RSS) / <id> (Atom), falling back to the link: an entry seen
+-- once per source is not stored again, even after its text was edited.
+alter table public.records
+  add column if not exists feed_guid text;
+
+create unique index if not exists records_source_feed_guid_key
+  on public.records (source_id, feed_guid)
+  where feed_guid is not null;
+
+/* ---- Scheduler: poll the feeds on the same cron job ---- */
+-- fetch-apify drains the analysis backlog; feed entries stored concurrently are
+-- picked up by the next run's drain.
+create or replace function public.run_scheduled_pipeline()
+returns bigint
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_url text;
+  v_key text;
+  v_headers jsonb;
+begin
+  select decrypted_secret into v_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into v_key from vault.decrypted_secrets where name = 'service_role_key';
+  if v_url is null or v_key is null then
+    raise notice 'run_scheduled_pipeline: vault secrets project_url / service_role_key not set';
+    return null;
+  end if;
+
+  v_headers := jsonb_build_object(
+    'Content-Type', 'application/json',
+    'Authorization', 'Bearer ' || v_key
+  );
+
+  perform net.http_post(
+    url := v_url || '/functions/v1/fetch-feeds',
+    headers := v_headers,
+    body := jsonb_build_object('trigger', 'schedule'),
+    timeout_milliseconds := 300000
+  );
+
+  return net.http_post(
+    url := v_url || '/functions/v1/fetch-apify',
+    headers := v_headers,
+    body := jsonb_build_object('trigger', 'schedule', 'analyze', 'drain'),
+    timeout_milliseconds := 300000
+  );
+end;
+$$;
+
+revoke execute on function public.run_scheduled_pipeline() from public, anon, authenticated;
@@ -0,0 +1,80 @@
+-- analyze-records claims rows before sending them to the model, so concurrent
+-- runs (two clicks, a scheduled run overlapping a webhook) never pay twice.
+alter table public.records
+  add column if not exists analysis_status text not null default 'pending'
+    check (analysis_status in ('pending', 'processing', 'done')),
+  -- set by claim_pending_records; a claim older than its lease is up for grabs
+  add column if not exists claimed_at timestamptz,
+  -- the claiming run (its job_runs id)
+  add column if not exists claimed_by text;
+
+update public.records
+set analysis_status = 'done'
+where analyzed_at is not null and analysis_status <> 'done';
+
+create index if not exists records_analysis_queue_idx
+  on public.records (inserted_at, id)
+  where analysis_status <> 'done';
+
+-- Claim up to p_limit rows (oldest first): pending ones, and processing ones
+-- whose claim is older than p_lease_seconds (a crashed or timed-out run).
+-- SKIP LOCKED lets concurrent callers each take different rows without waiting.
+create or replace function public.claim_pending_records(
+  p_worker text,
+  p_limit integer default 20,
+  p_ids uuid[] default null,
+  p_lease_seconds integer default 300
+)
+returns table (id uuid, content text, inserted_at timestamptz)
+language sql
+volatile
+set search_path = public
+as $$
+  with picked as (
+    select r.id
+    from public.records r
+    where (
+        r.analysis_status = 'pending'
+        or (
+          r.analysis_status = 'processing'
+          and r.claimed_at < now() - make_interval(secs => p_lease_seconds)
+        )
+      )
+      and (p_ids is null or r.id = any (p_ids))
+    order by r.inserted_at, r.id
+    limit p_limit
+    for update skip locked
+  )
+  update public.records r
+  set analysis_status = 'processing',
+      claimed_at = now(),
+      claimed_by = p_worker
+  from picked
+  where r.id = picked.id
+  returning r.id, r.content, r.inserted_at
+$$;
+
+-- Give back what a run still holds (failed rows, rows left when its time budget
+-- ran out) so the next run picks them up without waiting for the lease.
+create or replace function public.release_record_claims(p_worker text)
+returns integer
+language sql
+volatile
+set search_path = public
+as $$
+  with released as (
+    update public.records
+    set analysis_status = 'pending',
+        claimed_at = null,
+        claimed_by = null
+    where claimed_by = p_worker
+      and analysis_status = 'processing'
+    returning 1
+  )
+  select count(*)::integer from released
+$$;
+
+revoke execute on function public.claim_pending_records(text, integer, uuid[], integer)
+  from public, anon, authenticated;
+revoke execute on function public.release_record_claims(text)
+  from public, anon, authenticated;
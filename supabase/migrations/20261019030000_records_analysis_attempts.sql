@@ -0,0 +1,155 @@
+-- Per-record analysis outcome: failed rows back off exponentially and end in
+-- 'failed' (dead letter) after too many attempts instead of being retried on
+-- every run; 'skipped' rows have nothing to analyze.
+alter table public.records drop constraint if exists records_analysis_status_check;
+alter table public.records
+  add constraint records_analysis_status_check
+  check (analysis_status in ('pending', 'processing', 'done', 'failed', 'skipped'));
+
+alter table public.records
+  -- claims so far (a claim whose lease expired counts too)
+  add column if not exists attempts integer not null default 0,
+  add column if not exists last_error text,
+  -- a failed attempt's backoff: not claimed again before this
+  add column if not exists next_attempt_at timestamptz;
+
+drop index if exists public.records_analysis_queue_idx;
+create index if not exists records_analysis_queue_idx
+  on public.records (inserted_at, id)
+  where analysis_status in ('pending', 'processing');
+
+-- Now also counts attempts, honors next_attempt_at, and dead-letters rows whose
+-- lease expired on their last allowed attempt (e.g. content that crashes a worker).
+drop function if exists public.claim_pending_records(text, integer, uuid[], integer);
+
+create or replace function public.claim_pending_records(
+  p_worker text,
+  p_limit integer default 20,
+  p_ids uuid[] default null,
+  p_lease_seconds integer default 300,
+  p_max_attempts integer default 5
+)
+returns table (id uuid, content text, inserted_at timestamptz, attempts integer)
+language plpgsql
+volatile
+set search_path = public
+as $$
+begin
+  update public.records r
+  set analysis_status = 'failed',
+      last_error = coalesce(r.last_error, 'lease expired'),
+      claimed_at = null,
+      claimed_by = null
+  where r.analysis_status = 'processing'
+    and r.claimed_at < now() - make_interval(secs => p_lease_seconds)
+    and r.attempts >= p_max_attempts;
+
+  return query
+  with picked as (
+    select r.id
+    from public.records r
+    where (
+        (
+          r.analysis_status = 'pending'
+          and (r.next_attempt_at is null or r.next_attempt_at <= now())
+        )
+        or (
+          r.analysis_status = 'processing'
+          and r.claimed_at < now() - make_interval(secs => p_lease_seconds)
+        )
+      )
+      and (p_ids is null or r.id = any (p_ids))
+    order by r.inserted_at, r.id
+    limit p_limit
+    for update skip locked
+  )
+  update public.records r
+  set analysis_status = 'processing',
+      claimed_at = now(),
+      claimed_by = p_worker,
+      attempts = r.attempts + 1
+  from picked
+  where r.id = picked.id
+  returning r.id, r.content, r.inserted_at, r.attempts;
+end;
+$$;
+
+-- Claimed but never tried (time budget, quota): not an attempt.
+create or replace function public.release_record_claims(p_worker text)
+returns integer
+language sql
+volatile
+set search_path = public
+as $$
+  with released as (
+    update public.records
+    set analysis_status = 'pending',
+        attempts = greatest(attempts - 1, 0),
+        claimed_at = null,
+        claimed_by = null
+    where claimed_by = p_worker
+      and analysis_status = 'processing'
+    returning 1
+  )
+  select count(*)::integer from released
+$$;
+
+-- A failed attempt: back off p_base_seconds * 2^(attempts - 1) (max a day), or
+-- dead-letter once p_max_attempts is reached. Returns the new status.
+create or replace function public.record_analysis_failure(
+  p_id uuid,
+  p_worker text,
+  p_error text,
+  p_max_attempts integer default 5,
+  p_base_seconds integer default 60
+)
+returns text
+language sql
+volatile
+set search_path = public
+as $$
+  update public.records
+  set analysis_status = case when attempts >= p_max_attempts then 'failed' else 'pending' end,
+      last_error = left(p_error, 1000),
+      next_attempt_at = case
+        when attempts >= p_max_attempts then null
+        else now() + make_interval(
+          secs => least(p_base_seconds * power(2, greatest(attempts - 1, 0)), 86400)
+        )
+      end,
+      claimed_at = null,
+      claimed_by = null
+  where id = p_id
+    and claimed_by = p_worker
+  returning analysis_status
+$$;
+
+revoke execute on function public.claim_pending_records(text, integer, uuid[], integer, integer)
+  from public, anon, authenticated;
+revoke execute on function public.record_analysis_failure(uuid, text, text, integer, integer)
+  from public, anon, authenticated;
+
+-- RecordCard "Retry": a failed or skipped row starts over. Security definer
+-- because the dashboard may only update user_rating directly.
+create or replace function public.retry_record_analysis(p_id uuid)
+returns boolean
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  with reset as (
+    update public.records
+    set analysis_status = 'pending',
+        attempts = 0,
+        last_error = null,
+        next_attempt_at = null
+    where id = p_id
+      and analysis_status in ('failed', 'skipped')
+    returning 1
+  )
+  select exists (select 1 from reset)
+$$;
+
+revoke execute on function public.retry_record_analysis(uuid) from public;
+grant execute on function public.retry_record_analysis(uuid) to anon, authenticated;
@@ -0,0 +1,61 @@
+-- Which model and prompt produced a record's current analysis (analyze-records
+-- AI_MODEL / PROMPT_VERSION); null for analyses written before this.
+alter table public.records
+  add column if not exists analysis_model text,
+  add column if not exists analysis_prompt_version text;
+
+-- Put analyzed (or failed/skipped) records back in the queue, by ids or by the
+-- DataList filters (same semantics as keyword_facets). Without p_force only
+-- records analyzed by another model or prompt version are requeued. The old
+-- analysis stays visible until the new one replaces it. Returns the count.
+create or replace function public.requeue_records_for_analysis(
+  p_model text,
+  p_prompt_version text,
+  p_force boolean default false,
+  p_ids uuid[] default null,
+  p_sentiment text default null,
+  p_search text default null,
+  p_keywords text[] default null,
+  p_match_all boolean default true,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_sources text[] default null
+)
+returns integer
+language sql
+volatile
+set search_path = public
+as $$
+  with requeued as (
+    update public.records r
+    set analysis_status = 'pending',
+        attempts = 0,
+        last_error = null,
+        next_attempt_at = null,
+        claimed_at = null,
+        claimed_by = null
+    where r.analysis_status in ('done', 'failed', 'skipped')
+      and (
+        p_force
+        or r.analysis_model is distinct from p_model
+        or r.analysis_prompt_version is distinct from p_prompt_version
+      )
+      and (p_ids is null or r.id = any (p_ids))
+      and (p_sentiment is null or r.sentiment = p_sentiment)
+      and (p_search is null or r.fts @@ websearch_to_tsquery('english', p_search))
+      and (
+        coalesce(cardinality(p_keywords), 0) = 0
+        or (p_match_all and r.keywords @> p_keywords)
+        or (not p_match_all and r.keywords && p_keywords)
+      )
+      and (p_from is null or r.created_at >= p_from)
+      and (p_to is null or r.created_at < p_to)
+      and (coalesce(cardinality(p_sources), 0) = 0 or r.source = any (p_sources))
+    returning 1
+  )
+  select count(*)::integer from requeued
+$$;
+
+revoke execute on function public.requeue_records_for_analysis(
+  text, text, boolean, uuid[], text, text, text[], boolean, timestamptz, timestamptz, text[]
+) from public, anon, authenticated;
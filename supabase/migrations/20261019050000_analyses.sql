@@ -0,0 +1,108 @@
+-- Every analysis result, not just the latest: re-analysis (new model or
+-- prompt version) adds a row instead of overwriting the previous one. The
+-- records columns (summary, keywords, sentiment, ...) stay a copy of the
+-- current analysis so filters, facets and sorting keep working unchanged.
+create table if not exists public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  record_id uuid not null references public.records (id) on delete cascade,
+  model text,
+  prompt_version text,
+  summary text,
+  keywords text[],
+  sentiment text check (sentiment in ('positive', 'neutral', 'negative')),
+  sentiment_score double precision,
+  -- usage reported by the provider; null when it reports none
+  prompt_tokens integer,
+  completion_tokens integer,
+  total_tokens integer,
+  created_at timestamptz not null default now()
+);
+
+alter table public.analyses enable row level security;
+
+create index if not exists analyses_record_id_created_at_idx
+  on public.analyses (record_id, created_at desc);
+
+alter table public.records
+  add column if not exists current_analysis_id uuid
+    references public.analyses (id) on delete set null;
+
+-- Analyses written before this table existed become each record's first version.
+with backfilled as (
+  insert into public.analyses (
+    record_id, model, prompt_version, summary, keywords, sentiment, sentiment_score, created_at
+  )
+  select r.id, r.analysis_model, r.analysis_prompt_version, r.summary, r.keywords,
+         r.sentiment, r.sentiment_score, r.analyzed_at
+  from public.records r
+  where r.analyzed_at is not null
+    and r.current_analysis_id is null
+  returning id, record_id
+)
+update public.records r
+set current_analysis_id = b.id
+from backfilled b
+where r.id = b.record_id;
+
+-- History drawer on RecordCard: read-only for the dashboard.
+grant select on public.analyses to anon, authenticated;
+
+drop policy if exists "analyses are readable" on public.analyses;
+create policy "analyses are readable"
+  on public.analyses for select
+  to anon, authenticated
+  using (true);
+
+-- analyze-records' result for a record: a new analyses row, made current and
+-- copied onto the record in the same transaction. Returns the analysis id.
+create or replace function public.save_record_analysis(
+  p_id uuid,
+  p_model text,
+  p_prompt_version text,
+  p_summary text,
+  p_keywords text[],
+  p_sentiment text,
+  p_sentiment_score double precision,
+  p_prompt_tokens integer default null,
+  p_completion_tokens integer default null,
+  p_total_tokens integer default null
+)
+returns uuid
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  v_analysis uuid;
+begin
+  insert into public.analyses (
+    record_id, model, prompt_version, summary, keywords, sentiment, sentiment_score,
+    prompt_tokens, completion_tokens, total_tokens
+  )
+  values (
+    p_id, p_model, p_prompt_version, p_summary, p_keywords, p_sentiment, p_sentiment_score,
+    p_prompt_tokens, p_completion_tokens, p_total_tokens
+  )
+  returning id into v_analysis;
+
+  update public.records
+  set summary = p_summary,
+      keywords = p_keywords,
+      sentiment = p_sentiment,
+      sentiment_score = p_sentiment_score,
+      analyzed_at = now(),
+      analysis_status = 'done',
+      analysis_model = p_model,
+      analysis_prompt_version = p_prompt_version,
+      current_analysis_id = v_analysis,
+      last_error = null,
+      next_attempt_at = null
+  where id = p_id;
+
+  return v_analysis;
+end;
+$$;
+
+revoke execute on function public.save_record_analysis(
+  uuid, text, text, text, text[], text, double precision, integer, integer, integer
+) from public, anon, authenticated;
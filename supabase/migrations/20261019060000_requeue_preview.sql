@@ -0,0 +1,74 @@
+-- Re-analysis, take two:
+--  * rows analyzed before analysis_model/analysis_prompt_version existed have
+--    no version: unknown is not "outdated" (only p_force or explicit ids
+--    re-run them), otherwise the first filtered re-analysis paid for every row
+--  * p_dry_run counts the rows that would be requeued without touching them,
+--    so the dashboard can ask for confirmation first
+drop function if exists public.requeue_records_for_analysis(
+  text, text, boolean, uuid[], text, text, text[], boolean, timestamptz, timestamptz, text[]
+);
+
+create or replace function public.requeue_records_for_analysis(
+  p_model text,
+  p_prompt_version text,
+  p_force boolean default false,
+  p_ids uuid[] default null,
+  p_sentiment text default null,
+  p_search text default null,
+  p_keywords text[] default null,
+  p_match_all boolean default true,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_sources text[] default null,
+  p_dry_run boolean default false
+)
+returns integer
+language sql
+volatile
+set search_path = public
+as $$
+  with matched as (
+    select r.id
+    from public.records r
+    where r.analysis_status in ('done', 'failed', 'skipped')
+      and (
+        p_force
+        or (
+          r.analysis_model is not null
+          and (
+            r.analysis_model <> p_model
+            or r.analysis_prompt_version is distinct from p_prompt_version
+          )
+        )
+      )
+      and (p_ids is null or r.id = any (p_ids))
+      and (p_sentiment is null or r.sentiment = p_sentiment)
+      and (p_search is null or r.fts @@ websearch_to_tsquery('english', p_search))
+      and (
+        coalesce(cardinality(p_keywords), 0) = 0
+        or (p_match_all and r.keywords @> p_keywords)
+        or (not p_match_all and r.keywords && p_keywords)
+      )
+      and (p_from is null or r.created_at >= p_from)
+      and (p_to is null or r.created_at < p_to)
+      and (coalesce(cardinality(p_sources), 0) = 0 or r.source = any (p_sources))
+  ),
+  requeued as (
+    update public.records r
+    set analysis_status = 'pending',
+        attempts = 0,
+        last_error = null,
+        next_attempt_at = null,
+        claimed_at = null,
+        claimed_by = null
+    from matched m
+    where r.id = m.id
+      and not p_dry_run
+    returning 1
+  )
+  select count(*)::integer from matched
+$$;
+
+revoke execute on function public.requeue_records_for_analysis(
+  text, text, boolean, uuid[], text, text, text[], boolean, timestamptz, timestamptz, text[], boolean
+) from public, anon, authenticated;
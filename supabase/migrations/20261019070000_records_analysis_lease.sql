@@ -0,0 +1,185 @@
+-- A claim's lease is fixed when the row is claimed (the holder's budget), not
+-- judged with whatever p_lease_seconds the next caller passes: a short-budget
+-- run could otherwise take rows a long-budget run still legitimately holds.
+alter table public.records
+  add column if not exists lease_expires_at timestamptz;
+
+update public.records
+set lease_expires_at = claimed_at + interval '300 seconds'
+where analysis_status = 'processing'
+  and lease_expires_at is null;
+
+create or replace function public.claim_pending_records(
+  p_worker text,
+  p_limit integer default 20,
+  p_ids uuid[] default null,
+  p_lease_seconds integer default 300,
+  p_max_attempts integer default 5
+)
+returns table (id uuid, content text, inserted_at timestamptz, attempts integer)
+language plpgsql
+volatile
+set search_path = public
+as $$
+begin
+  update public.records r
+  set analysis_status = 'failed',
+      last_error = coalesce(r.last_error, 'lease expired'),
+      claimed_at = null,
+      claimed_by = null,
+      lease_expires_at = null
+  where r.analysis_status = 'processing'
+    and r.lease_expires_at < now()
+    and r.attempts >= p_max_attempts;
+
+  return query
+  with picked as (
+    select r.id
+    from public.records r
+    where (
+        (
+          r.analysis_status = 'pending'
+          and (r.next_attempt_at is null or r.next_attempt_at <= now())
+        )
+        or (
+          r.analysis_status = 'processing'
+          and r.lease_expires_at < now()
+        )
+      )
+      and (p_ids is null or r.id = any (p_ids))
+    order by r.inserted_at, r.id
+    limit p_limit
+    for update skip locked
+  )
+  update public.records r
+  set analysis_status = 'processing',
+      claimed_at = now(),
+      claimed_by = p_worker,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      attempts = r.attempts + 1
+  from picked
+  where r.id = picked.id
+  returning r.id, r.content, r.inserted_at, r.attempts;
+end;
+$$;
+
+create or replace function public.release_record_claims(p_worker text)
+returns integer
+language sql
+volatile
+set search_path = public
+as $$
+  with released as (
+    update public.records
+    set analysis_status = 'pending',
+        attempts = greatest(attempts - 1, 0),
+        claimed_at = null,
+        claimed_by = null,
+        lease_expires_at = null
+    where claimed_by = p_worker
+      and analysis_status = 'processing'
+    returning 1
+  )
+  select count(*)::integer from released
+$$;
+
+create or replace function public.record_analysis_failure(
+  p_id uuid,
+  p_worker text,
+  p_error text,
+  p_max_attempts integer default 5,
+  p_base_seconds integer default 60
+)
+returns text
+language sql
+volatile
+set search_path = public
+as $$
+  update public.records
+  set analysis_status = case when attempts >= p_max_attempts then 'failed' else 'pending' end,
+      last_error = left(p_error, 1000),
+      next_attempt_at = case
+        when attempts >= p_max_attempts then null
+        else now() + make_interval(
+          secs => least(p_base_seconds * power(2, greatest(attempts - 1, 0)), 86400)
+        )
+      end,
+      claimed_at = null,
+      claimed_by = null,
+      lease_expires_at = null
+  where id = p_id
+    and claimed_by = p_worker
+  returning analysis_status
+$$;
+
+-- Only the run still holding the claim may save: a run whose lease expired
+-- and whose row was claimed again gets null back and writes nothing.
+drop function if exists public.save_record_analysis(
+  uuid, text, text, text, text[], text, double precision, integer, integer, integer
+);
+
+create or replace function public.save_record_analysis(
+  p_id uuid,
+  p_worker text,
+  p_model text,
+  p_prompt_version text,
+  p_summary text,
+  p_keywords text[],
+  p_sentiment text,
+  p_sentiment_score double precision,
+  p_prompt_tokens integer default null,
+  p_completion_tokens integer default null,
+  p_total_tokens integer default null
+)
+returns uuid
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  v_analysis uuid;
+begin
+  perform 1
+  from public.records
+  where id = p_id
+    and claimed_by = p_worker
+    and analysis_status = 'processing'
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  insert into public.analyses (
+    record_id, model, prompt_version, summary, keywords, sentiment, sentiment_score,
+    prompt_tokens, completion_tokens, total_tokens
+  )
+  values (
+    p_id, p_model, p_prompt_version, p_summary, p_keywords, p_sentiment, p_sentiment_score,
+    p_prompt_tokens, p_completion_tokens, p_total_tokens
+  )
+  returning id into v_analysis;
+
+  update public.records
+  set summary = p_summary,
+      keywords = p_keywords,
+      sentiment = p_sentiment,
+      sentiment_score = p_sentiment_score,
+      analyzed_at = now(),
+      analysis_status = 'done',
+      analysis_model = p_model,
+      analysis_prompt_version = p_prompt_version,
+      current_analysis_id = v_analysis,
+      last_error = null,
+      next_attempt_at = null,
+      claimed_at = null,
+      claimed_by = null,
+      lease_expires_at = null
+  where id = p_id;
+
+  return v_analysis;
+end;
+$$;
+
+revoke execute on function public.save_record_analysis(
+  uuid, text, text, text, text, text[], text, double precision, integer, integer, integer
+) from public, anon, authenticated;
@@ -0,0 +1,32 @@
+-- Headline numbers on the System Health tab, over every record (the list only
+-- holds the pages loaded so far).
+create or replace function public.health_stats()
+returns table (
+  total bigint,
+  analyzed bigint,
+  positive bigint,
+  neutral bigint,
+  negative bigint,
+  avg_confidence double precision,
+  avg_rating double precision,
+  rated bigint,
+  latest_created_at timestamptz
+)
+language sql
+stable
+as $$
+  select
+    count(*) as total,
+    count(*) filter (where r.analyzed_at is not null) as analyzed,
+    count(*) filter (where r.sentiment = 'positive') as positive,
+    count(*) filter (where r.sentiment = 'neutral') as neutral,
+    count(*) filter (where r.sentiment = 'negative') as negative,
+    -- same -1..1 -> 0..1 mapping the UI uses for "confidence"
+    avg((r.sentiment_score + 1) / 2)::double precision as avg_confidence,
+    avg(r.user_rating)::double precision as avg_rating,
+    count(r.user_rating) as rated,
+    max(r.created_at) as latest_created_at
+  from public.records r
+$$;
+
+grant execute on function public.health_stats() to anon, authenticated;
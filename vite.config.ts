@@ -1,8 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [tailwindcss(), react()]
+  plugins: [tailwindcss(), react()],
+  test: {
+    // supabase/functions has its own (Deno) tests
+    include: ["src/**/*.test.ts"]
+  }
 });